@@ -0,0 +1,99 @@
+import _ from "lodash";
+import fs from "fs";
+import path from "path";
+import { logger } from "./env";
+import { parse_pr, PullRequest, short_pr, stringify_pr } from "./requests/prs";
+import { parse_repo_id, RepoId, stringify_repo_id } from "./requests/repos";
+
+/** What a changelog says about a PR. Recorded when the repos are scanned, so that resumed runs don't refetch it. */
+export type ChangelogPR = {
+    permalink: string;
+    number: number;
+    title: string;
+    author: string | null;
+    labels: string[];
+    /** The PRs in other repos that the PR depends on */
+    cross_repo_dependencies: string[];
+};
+
+export type Changelog = {
+    repo_id: RepoId;
+    tag: string;
+    branch: "master" | "dev";
+    /** The PRs merged into master since its last tag */
+    master_prs: ChangelogPR[];
+    /** The PRs that are only in dev. Always empty for master tags. */
+    experimental_prs: ChangelogPR[];
+    /** The dependency tags that were written into dependencies.gradle before tagging, by repo name */
+    tag_overrides: {[repo: string]: string};
+};
+
+export function to_changelog_pr(pr: PullRequest): ChangelogPR {
+    const repo = parse_pr(pr.permalink)?.repo_id;
+
+    return {
+        permalink: pr.permalink,
+        number: pr.number,
+        title: pr.title,
+        author: pr.author,
+        labels: pr.labels,
+        cross_repo_dependencies: _(pr.dependencies)
+            .filter(dep => !repo || stringify_repo_id(dep.repo_id).toLowerCase() !== stringify_repo_id(repo).toLowerCase())
+            .map(stringify_pr)
+            .value(),
+    };
+}
+
+function format_pr(pr: ChangelogPR): string[] {
+    const author = pr.author ? ` by @${pr.author}` : "";
+    const labels = _.map(pr.labels, label => ` \`${label}\``).join("");
+
+    return [
+        `- ${pr.title} ([#${pr.number}](${pr.permalink}))${author}${labels}`,
+        ..._.map(pr.cross_repo_dependencies, dep => `  - :warning: Requires [${short_pr(dep)}](${dep})`),
+    ];
+}
+
+export function format_changelog(changelog: Changelog): string {
+    const { repo } = parse_repo_id(changelog.repo_id);
+
+    const section = (title: string, prs: ChangelogPR[]) => [
+        `## ${title}`,
+        "",
+        ...(prs.length > 0 ? _.flatMap(prs, format_pr) : ["No PRs."]),
+        "",
+    ];
+
+    const lines = [
+        `# ${repo} ${changelog.tag}`,
+        "",
+        ...section(changelog.branch === "dev" ? "Changes in master" : "Changes", changelog.master_prs),
+        ...(changelog.branch === "dev" ? section("Experimental-only changes", changelog.experimental_prs) : []),
+        ...(_.isEmpty(changelog.tag_overrides) ? [] : [
+            "## Dependency tags",
+            "",
+            ..._.map(changelog.tag_overrides, (tag, repo) => `- ${repo}: ${tag}`),
+            "",
+        ]),
+    ];
+
+    return lines.join("\n");
+}
+
+export function get_changelog_path(dir: string, repo_id: RepoId, tag: string) {
+    const { owner, repo } = parse_repo_id(repo_id);
+
+    return path.join(dir, owner, repo, `${tag}.md`);
+}
+
+/** Writes the changelog into `dir` and returns the file it was written to */
+export function write_changelog(dir: string, changelog: Changelog): string {
+    const file = get_changelog_path(dir, changelog.repo_id, changelog.tag);
+
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, format_changelog(changelog));
+
+    logger.info(`Wrote the changelog for ${changelog.repo_id} ${changelog.tag} to ${file}`);
+
+    return file;
+}
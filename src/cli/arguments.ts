@@ -0,0 +1,150 @@
+import { ArgumentParser } from "argparse";
+
+// The dests of these arguments match the keys of EnvOptions, so the parsed args can be passed straight to configure()
+
+export function add_common_arguments(parser: ArgumentParser) {
+    parser.add_argument('--token', {
+        dest: "token",
+        help: 'Github token override. Takes priority over the env var GH_TOKEN if set.',
+    });
+    parser.add_argument('--scratchpad', {
+        dest: "scratchpad",
+        help: 'The folder to put repo clones in. Should not contain any other files - MMXXL will remove clones. Takes priority over the env var CLONE_SCRATCHPAD if set.',
+    });
+    parser.add_argument('--mirror-cache', {
+        dest: "mirror_cache",
+        action: "store_true",
+        help: 'Keeps bare mirrors of every repo in the scratchpad and checks them out as worktrees, instead of cloning from scratch every run.'
+    });
+    parser.add_argument('--gh-action', {
+        dest: "is_gh_action",
+        action: "store_true",
+        help: 'Changes some behaviour to make MMXXL work in a github action.'
+    });
+    parser.add_argument('--log-level', {
+        dest: "log_level",
+        help: 'Sets the log level. One of: trace, debug, info, warn, error, fatal.'
+    });
+}
+
+export function add_branch_arguments(parser: ArgumentParser) {
+    parser.add_argument('--dev-branch', {
+        dest: "dev_branch",
+        help: 'The dev branch name override.',
+    });
+    parser.add_argument('--dev-custom', {
+        dest: "dev_custom",
+        help: 'The custom dev branch name override. Used for adding extra changes into dev that aren\'t from a PR.',
+    });
+    parser.add_argument('--dev-error', {
+        dest: "dev_error",
+        help: 'The error dev branch name override. The latest dev branch will be pushed to this branch when a merge conflict occurs.',
+    });
+}
+
+export function add_dryrun_argument(parser: ArgumentParser) {
+    parser.add_argument('--dryrun', {
+        dest: "dryrun",
+        action: "store_true",
+        help: 'Performs every operation as normal, but does not push anything.'
+    });
+}
+
+export function add_blacklist_arguments(parser: ArgumentParser) {
+    parser.add_argument('--mmxxl-blacklist', {
+        dest: "mmxxl_blacklist",
+        action: 'append',
+        help: 'Adds a repo to the MMXXL blacklist. No operations will be performed on the given repos.',
+    });
+    parser.add_argument('--spotless-blacklist', {
+        dest: "spotless_blacklist",
+        action: 'append',
+        help: 'Adds a repo to the spotless blacklist. Spotless will not be ran on the given repos.',
+    });
+    parser.add_argument('--update-deps-blacklist', {
+        dest: "update_deps_blacklist",
+        action: 'append',
+        help: 'Adds a repo to the updates blacklist. Dependencies will not be updated on the given repos, even if they have inter-repo dependencies.',
+    });
+}
+
+export function add_label_arguments(parser: ArgumentParser) {
+    parser.add_argument('--required-label', {
+        dest: "required_labels",
+        action: 'append',
+        help: 'A label that PRs need to be tested. `*` matches any text and a leading `!` excludes the labels it matches. Replaces the default zeta testing labels; repos can override this in their config.',
+    });
+    parser.add_argument('--blocker-label', {
+        dest: "blocker_labels",
+        action: 'append',
+        help: 'A label that stops PRs from being tested, in the same format as --required-label. Replaces the default blocker labels.',
+    });
+    parser.add_argument('--not-revertable-label', {
+        dest: "not_revertable_labels",
+        action: 'append',
+        help: 'A label for PRs that cancel the experimental if they stop merging, in the same format as --required-label. Replaces the default label.',
+    });
+}
+
+export function add_review_arguments(parser: ArgumentParser) {
+    parser.add_argument('--exclude-changes-requested', {
+        dest: "exclude_changes_requested",
+        action: "store_true",
+        help: 'Leaves out PRs that have changes requested. Repos can override this in their config.',
+    });
+    parser.add_argument('--require-approval', {
+        dest: "require_approval",
+        action: "store_true",
+        help: 'Only tests PRs that were approved, in repos whose branch protection requires reviews.',
+    });
+    parser.add_argument('--require-green-checks', {
+        dest: "require_green_checks",
+        action: "store_true",
+        help: 'Only tests PRs whose checks have all passed. PRs without checks are still tested.',
+    });
+}
+
+export function add_order_arguments(parser: ArgumentParser) {
+    parser.add_argument('--merge-order', {
+        dest: "merge_order",
+        action: 'append',
+        choices: ["priority", "age", "size"],
+        help: 'What PRs are merged into dev in, after their dependencies: priority (priority labels and the repo config\'s mmxxlPriority), age (oldest first) or size (smallest first). Can be given several times, most important first. Defaults to priority.',
+    });
+    parser.add_argument('--priority-label', {
+        dest: "priority_labels",
+        action: 'append',
+        help: 'A label for PRs that are merged first, in the same format as --required-label. Labels given earlier have a higher priority.',
+    });
+}
+
+export function add_repos_argument(parser: ArgumentParser, help: string) {
+    parser.add_argument('repos', {
+        type: 'string',
+        nargs: '*',
+        help,
+    });
+}
+
+export function add_report_argument(parser: ArgumentParser) {
+    parser.add_argument('--report', {
+        dest: "report",
+        help: 'Writes a JSON report of everything this run did to the given file.',
+    });
+}
+
+export function add_resume_arguments(parser: ArgumentParser) {
+    parser.add_argument('--run-id', {
+        dest: "run_id",
+        help: 'The id of this run, which names its state file. Defaults to the env var GITHUB_RUN_ID, or the current time.',
+    });
+    parser.add_argument('--state-file', {
+        dest: "state_file",
+        help: 'Writes the progress of this run to the given file instead of the scratchpad.',
+    });
+    parser.add_argument('--resume', {
+        dest: "resume",
+        action: "store_true",
+        help: 'Continues the run from its state file, skipping everything it already finished. Without a run id or state file, continues the run of the env var GITHUB_RUN_ID, or else the most recent one.',
+    });
+}
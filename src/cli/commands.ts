@@ -0,0 +1,220 @@
+import _ from "lodash";
+import yaml from "yaml";
+import { EntryPoint } from "../entry_point";
+import { logger } from "../env";
+import { resolve_repos } from "../requests/repos";
+import { plan_update_dev, update_dev } from "../update_dev";
+import { find_resume_state, get_tag_state_path, load_tag_state, new_run_id, new_tag_state, plan_tags, tag_dev } from "../tag_dev";
+import { new_report, run_with_report } from "../report";
+import { check_config_files, check_repo_configs } from "../config_check";
+import { format_conflict_matrix, get_conflict_matrix } from "../conflict_matrix";
+import { format_dev_status_table, get_repo_dev_status, RepoDevStatus, STATUS_FORMATS } from "../dev_status";
+import { add_blacklist_arguments, add_branch_arguments, add_common_arguments, add_dryrun_argument, add_label_arguments, add_order_arguments, add_report_argument, add_repos_argument, add_resume_arguments, add_review_arguments } from "./arguments";
+
+export const update_dev_command: EntryPoint = {
+    name: "update-dev",
+    help: "Merges every PR that is ready for testing into the dev branch of each repo.",
+    add_arguments(parser) {
+        add_common_arguments(parser);
+        add_branch_arguments(parser);
+        add_dryrun_argument(parser);
+        add_blacklist_arguments(parser);
+        add_label_arguments(parser);
+        add_review_arguments(parser);
+        add_order_arguments(parser);
+        add_report_argument(parser);
+        parser.add_argument('--jobs', {
+            dest: "jobs",
+            type: 'int',
+            default: 1,
+            help: 'The number of repos to update at once. Each job clones into its own folder in the scratchpad.',
+        });
+        add_repos_argument(parser, 'A list of repos to update (each in the format `Owner/Repo`: `GTNewHorizons/GT5-Unofficial`). Defaults to every repo in the experimental manifest.');
+    },
+    async run(args) {
+        const repo_ids = await resolve_repos(args.repos);
+
+        const report = new_report("update-dev", repo_ids);
+        report.update_dev = {};
+
+        await run_with_report(args.report, report, () => update_dev(repo_ids, report.update_dev, args.jobs));
+    },
+};
+
+export const tag_dev_command: EntryPoint = {
+    name: "tag-dev",
+    help: "Tags the master and dev branches of each repo in dependency order.",
+    add_arguments(parser) {
+        add_common_arguments(parser);
+        add_branch_arguments(parser);
+        add_dryrun_argument(parser);
+        add_blacklist_arguments(parser);
+        add_report_argument(parser);
+        add_resume_arguments(parser);
+        parser.add_argument('--atomic', {
+            dest: "atomic",
+            action: "store_true",
+            help: 'If tagging fails, deletes every tag this run pushed and restores every branch it updated, so that a cancelled experimental leaves no partial releases behind.',
+        });
+        parser.add_argument('--changelog-dir', {
+            dest: "changelog_dir",
+            help: 'Writes a Markdown changelog for each created tag into the given folder (as `Owner/Repo/<tag>.md`). Defaults to a folder next to the state file in the scratchpad.',
+        });
+        parser.add_argument('--releases', {
+            dest: "releases",
+            action: "store_true",
+            help: 'Once every workflow succeeded, creates a GitHub Release for each pushed tag with its changelog, or updates the existing one. Releases of -pre tags are marked as prereleases.',
+        });
+        add_repos_argument(parser, 'A list of repos to tag (each in the format `Owner/Repo`: `GTNewHorizons/GT5-Unofficial`). Defaults to every repo in the experimental manifest.');
+    },
+    async run(args) {
+        const run_id: string = args.run_id || new_run_id();
+        const state_file = args.state_file || (args.resume ? find_resume_state(args.run_id || null) : get_tag_state_path(run_id));
+
+        if (!state_file) {
+            throw new Error("Could not resume tag-dev: no run has saved its progress");
+        }
+
+        const state = args.resume ? load_tag_state(state_file) : new_tag_state(run_id);
+        const repo_ids = args.resume ? state.repo_ids : await resolve_repos(args.repos);
+
+        logger.info(`${args.resume ? "Resuming" : "Saving"} tag-dev progress ${args.resume ? "from" : "to"} ${state_file}`);
+
+        const report = new_report("tag-dev", repo_ids);
+        report.tag_dev = state;
+
+        await run_with_report(args.report, report, () => tag_dev(repo_ids, state, { state_file, atomic: args.atomic, changelog_dir: args.changelog_dir, releases: args.releases }));
+    },
+};
+
+export const plan_command: EntryPoint = {
+    name: "plan",
+    help: "Shows which PRs update-dev would merge and the order tag-dev would tag in, without changing anything.",
+    add_arguments(parser) {
+        add_common_arguments(parser);
+        add_branch_arguments(parser);
+        add_label_arguments(parser);
+        add_review_arguments(parser);
+        add_order_arguments(parser);
+        add_repos_argument(parser, 'A list of repos to plan for (each in the format `Owner/Repo`: `GTNewHorizons/GT5-Unofficial`). Defaults to every repo in the experimental manifest.');
+    },
+    async run(args) {
+        const repo_ids = await resolve_repos(args.repos);
+
+        logger.info(yaml.stringify({
+            "Merge plan": await plan_update_dev(repo_ids),
+        }));
+
+        logger.info(yaml.stringify({
+            "Tagging order": await plan_tags(repo_ids),
+        }));
+    },
+};
+
+export const conflicts_command: EntryPoint = {
+    name: "conflicts",
+    help: "Test-merges every pair of PRs that are ready for testing to find which PRs conflict with each other.",
+    add_arguments(parser) {
+        add_common_arguments(parser);
+        add_label_arguments(parser);
+        add_review_arguments(parser);
+        add_order_arguments(parser);
+        add_repos_argument(parser, 'A list of repos to check (each in the format `Owner/Repo`: `GTNewHorizons/GT5-Unofficial`). Defaults to every repo in the experimental manifest.');
+    },
+    async run(args) {
+        for (const repo_id of await resolve_repos(args.repos)) {
+            const matrix = await get_conflict_matrix(repo_id);
+
+            if (_.isEmpty(matrix.base_conflicts) && _.isEmpty(matrix.conflicts)) {
+                logger.info(`None of the ${matrix.prs.length} PR(s) in ${repo_id} conflict with each other`);
+                continue;
+            }
+
+            logger.info(`Conflicts for ${repo_id} (X: the PRs conflict, B: the PR conflicts with the default branch):\n${format_conflict_matrix(matrix)}`);
+
+            logger.info(yaml.stringify({
+                [repo_id]: {
+                    "Conflicts with the default branch": matrix.base_conflicts,
+                    "Conflicting PRs": _.map(matrix.conflicts, c => ({
+                        "Merged first": c.first,
+                        "Dropped from dev": c.second,
+                        "Files": c.files,
+                    })),
+                },
+            }));
+        }
+    },
+};
+
+export const status_command: EntryPoint = {
+    name: "status",
+    help: "Shows what the dev branch of each repo contains, without cloning or changing anything.",
+    add_arguments(parser) {
+        add_common_arguments(parser);
+        add_branch_arguments(parser);
+        parser.add_argument('--format', {
+            dest: "format",
+            choices: STATUS_FORMATS,
+            default: "table",
+            help: 'How to print the status. Defaults to a table.',
+        });
+        add_repos_argument(parser, 'A list of repos to show (each in the format `Owner/Repo`: `GTNewHorizons/GT5-Unofficial`). Defaults to every repo in the experimental manifest.');
+    },
+    async run(args) {
+        const statuses: RepoDevStatus[] = [];
+
+        for (const repo_id of await resolve_repos(args.repos)) {
+            statuses.push(await get_repo_dev_status(repo_id));
+        }
+
+        const formatters: {[format: string]: () => string} = {
+            table: () => format_dev_status_table(statuses),
+            yaml: () => yaml.stringify(statuses),
+            json: () => JSON.stringify(statuses, null, 2),
+        };
+
+        // Printed without the logger so that the output can be piped into other tools
+        process.stdout.write(`${formatters[args.format]()}\n`);
+    },
+};
+
+export const config_check_command: EntryPoint = {
+    name: "config check",
+    help: "Validates the .mmxxl-config.yaml of each repo, or of local files.",
+    add_arguments(parser) {
+        add_common_arguments(parser);
+        parser.add_argument('--file', {
+            dest: "files",
+            action: 'append',
+            help: 'Checks a local config file instead of cloning repos. Can be given multiple times.',
+        });
+        add_repos_argument(parser, 'A list of repos to check (each in the format `Owner/Repo`: `GTNewHorizons/GT5-Unofficial`). Defaults to every repo in the experimental manifest.');
+    },
+    async run(args) {
+        const problems = args.files ?
+            check_config_files(args.files) :
+            await check_repo_configs(await resolve_repos(args.repos));
+
+        const invalid = _.pickBy(problems, p => p.length > 0);
+
+        if (_.isEmpty(invalid)) {
+            logger.info(`All ${_.size(problems)} config(s) are valid`);
+            return;
+        }
+
+        logger.error(yaml.stringify({
+            "Invalid configs": invalid,
+        }));
+
+        process.exitCode = 1;
+    },
+};
+
+export const entry_points: EntryPoint[] = [
+    update_dev_command,
+    tag_dev_command,
+    plan_command,
+    conflicts_command,
+    status_command,
+    config_check_command,
+];
@@ -0,0 +1,48 @@
+import fs from "fs";
+import { check_repo_config, clone_repo, get_repo_config_path, RepoId, unclone_repo } from "./requests/repos";
+import { logger } from "./env";
+
+/** Maps each checked repo or file to the problems found in its config */
+export type ConfigProblems = {[source: string]: string[]};
+
+/** Checks the .mmxxl-config.yaml of each given repo */
+export async function check_repo_configs(repo_ids: RepoId[]): Promise<ConfigProblems> {
+    const problems: ConfigProblems = {};
+
+    for (const repo_id of repo_ids) {
+        await unclone_repo(repo_id);
+
+        try {
+            await clone_repo(repo_id);
+
+            const config_path = get_repo_config_path(repo_id);
+
+            if (!fs.existsSync(config_path)) {
+                logger.info(`${repo_id} does not have a config: skipping it`);
+                continue;
+            }
+
+            problems[repo_id] = check_repo_config(fs.readFileSync(config_path).toString());
+        } finally {
+            await unclone_repo(repo_id);
+        }
+    }
+
+    return problems;
+}
+
+/** Checks local config files, for validating a config before it is committed */
+export function check_config_files(files: string[]): ConfigProblems {
+    const problems: ConfigProblems = {};
+
+    for (const file of files) {
+        if (!fs.existsSync(file)) {
+            problems[file] = ["File does not exist"];
+            continue;
+        }
+
+        problems[file] = check_repo_config(fs.readFileSync(file).toString());
+    }
+
+    return problems;
+}
@@ -0,0 +1,119 @@
+import _ from "lodash";
+import { abort_merge, checkout_branch, checkout_new_branch, checkout_pr, clone_repo, delete_branch, get_conflicting_files, merge_branch, reset_hard, RepoId, unclone_repo } from "./requests/repos";
+import { get_prs as get_mergeable_prs, PullRequest } from "./requests/prs";
+import { logger } from "./env";
+
+/** The scratch branch that the test merges are done on */
+const SCRATCH_BRANCH = "mmxxl-conflict-check";
+
+export type PairConflict = {
+    /** The PR that is merged first (earlier in the merge order) */
+    first: string;
+    /** The PR that would be dropped from dev, since it is merged after `first` */
+    second: string;
+    files: string[];
+};
+
+export type ConflictMatrix = {
+    /** Every candidate PR, in merge order */
+    prs: string[];
+    /** PRs that can't be merged into the default branch at all, with their conflicting files */
+    base_conflicts: {[pr: string]: string[]};
+    conflicts: PairConflict[];
+};
+
+/** Merges each branch in order on top of the default branch. Returns the conflicting files if any merge failed, or null if they all merged. */
+async function test_merge(repo_id: RepoId, default_branch: string, prs: PullRequest[]): Promise<string[] | null> {
+    await reset_hard(repo_id, default_branch);
+
+    for (const pr of prs) {
+        try {
+            // checkout_pr names the local branch after the PR number
+            await merge_branch(repo_id, `${pr.number}`);
+        } catch (e) {
+            const files = await get_conflicting_files(repo_id);
+            await abort_merge(repo_id);
+            return files;
+        }
+    }
+
+    return null;
+}
+
+/** Test-merges every pair of candidate PRs on top of the default branch to find which PRs conflict with each other */
+export async function get_conflict_matrix(repo_id: RepoId): Promise<ConflictMatrix> {
+    await unclone_repo(repo_id);
+
+    try {
+        const { default_branch } = await clone_repo(repo_id);
+
+        const prs = (await get_mergeable_prs(repo_id, default_branch)).prs;
+
+        logger.info(`Checking ${prs.length} PR(s) in ${repo_id} for conflicts`);
+
+        for (const pr of prs) {
+            await checkout_pr(repo_id, pr.permalink);
+        }
+
+        await checkout_branch(repo_id, default_branch);
+        await delete_branch(repo_id, SCRATCH_BRANCH);
+        await checkout_new_branch(repo_id, SCRATCH_BRANCH);
+
+        const matrix: ConflictMatrix = {
+            prs: _.map(prs, "permalink"),
+            base_conflicts: {},
+            conflicts: [],
+        };
+
+        const mergeable: PullRequest[] = [];
+
+        for (const pr of prs) {
+            const files = await test_merge(repo_id, default_branch, [pr]);
+
+            if (files) {
+                logger.info(`${pr.permalink} conflicts with ${default_branch}`);
+                matrix.base_conflicts[pr.permalink] = files;
+            } else {
+                mergeable.push(pr);
+            }
+        }
+
+        for (var i = 0; i < mergeable.length; i++) {
+            for (var j = i + 1; j < mergeable.length; j++) {
+                const [first, second] = [mergeable[i], mergeable[j]];
+
+                const files = await test_merge(repo_id, default_branch, [first, second]);
+
+                if (files) {
+                    logger.info(`${first.permalink} conflicts with ${second.permalink}`);
+                    matrix.conflicts.push({ first: first.permalink, second: second.permalink, files });
+                }
+            }
+        }
+
+        return matrix;
+    } finally {
+        await unclone_repo(repo_id);
+    }
+}
+
+/** Renders the conflicts as a table: `X` marks a conflicting pair and `B` marks a PR that conflicts with the default branch */
+export function format_conflict_matrix(matrix: ConflictMatrix): string {
+    const conflicting = new Set(_.map(matrix.conflicts, c => `${c.first} ${c.second}`));
+
+    const cell = (a: string, b: string) => {
+        if (a === b) return matrix.base_conflicts[a] ? "B" : "-";
+        if (matrix.base_conflicts[a] || matrix.base_conflicts[b]) return " ";
+        return conflicting.has(`${a} ${b}`) || conflicting.has(`${b} ${a}`) ? "X" : ".";
+    };
+
+    const width = String(matrix.prs.length).length;
+    const pad = (s: string | number) => _.padStart(String(s), width);
+
+    const lines = [
+        `${pad("")}  ${_.map(matrix.prs, (_pr, i) => pad(i + 1)).join(" ")}`,
+        ..._.map(matrix.prs, (a, i) => `${pad(i + 1)}  ${_.map(matrix.prs, b => pad(cell(a, b))).join(" ")}  ${a}`),
+    ];
+
+    return lines.join("\n");
+}
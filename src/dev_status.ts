@@ -0,0 +1,89 @@
+import _ from "lodash";
+import { dev_branch, logger } from "./env";
+import { get_branch_update_time } from "./requests/branches";
+import { get_host } from "./requests/host";
+import { short_pr } from "./requests/prs";
+import { parse_repo_id, RepoId } from "./requests/repos";
+import { fetch_dev_status } from "./requests/status";
+
+/** What a repo's dev branch contains, read through the host's API */
+export type RepoDevStatus = {
+    repo: RepoId;
+    has_dev: boolean;
+    default_branch: string | null;
+    /** When the dev branch was last pushed to */
+    updated_at: string | null;
+    /** How many commits of the default branch are missing from dev */
+    behind_by: number | null;
+    included_prs: string[];
+    removed_prs: string[];
+    /** PRs in other repos that the included PRs need */
+    dependencies: string[];
+    /** PRs that were ready for testing but were left out, with the reasons why */
+    excluded_prs: {[pr: string]: string};
+    error: string | null;
+};
+
+export const STATUS_FORMATS = ["table", "yaml", "json"];
+
+export async function get_repo_dev_status(repo_id: RepoId): Promise<RepoDevStatus> {
+    const repo_info = parse_repo_id(repo_id);
+
+    const result: RepoDevStatus = {
+        repo: repo_id,
+        has_dev: false,
+        default_branch: null,
+        updated_at: null,
+        behind_by: null,
+        included_prs: [],
+        removed_prs: [],
+        dependencies: [],
+        excluded_prs: {},
+        error: null,
+    };
+
+    try {
+        if (!await get_host().get_ref(repo_info, `refs/heads/${dev_branch}`)) return result;
+
+        result.has_dev = true;
+        result.default_branch = await get_host().get_default_branch(repo_info);
+        result.updated_at = (await get_branch_update_time(repo_id, dev_branch))?.toISOString() || null;
+        result.behind_by = (await get_host().compare_commits(repo_info, dev_branch, result.default_branch)).ahead_by;
+
+        const status = await fetch_dev_status(repo_id, dev_branch);
+
+        if (status) {
+            result.included_prs = status["Included PRs"];
+            result.removed_prs = status["Removed PRs"];
+            result.dependencies = status["Dependencies"];
+            result.excluded_prs = status["Excluded PRs"] || {};
+        } else {
+            result.error = `${dev_branch} does not have a status`;
+        }
+    } catch (e) {
+        logger.error(`Could not get the status of ${repo_id}: ${e}`);
+        result.error = `${e}`;
+    }
+
+    return result;
+}
+
+export function format_dev_status_table(statuses: RepoDevStatus[]): string {
+    const header = ["Repo", "Updated", "Behind", "Included PRs", "Removed PRs", "Dependencies", "Error"];
+
+    const rows = _.map(statuses, s => [
+        s.repo,
+        s.has_dev ? (s.updated_at || "?") : `no ${dev_branch}`,
+        s.behind_by === null ? "" : `${s.behind_by}`,
+        _.map(s.included_prs, pr => short_pr(pr, parse_repo_id(s.repo))).join(" "),
+        _.map(s.removed_prs, pr => short_pr(pr, parse_repo_id(s.repo))).join(" "),
+        _.map(s.dependencies, pr => short_pr(pr, parse_repo_id(s.repo))).join(" "),
+        s.error || "",
+    ]);
+
+    const widths = _.map(header, (h, i) => _.max([h.length, ..._.map(rows, row => row[i].length)]) as number);
+
+    const format_row = (row: string[]) => _.map(row, (cell, i) => _.padEnd(cell, widths[i])).join("  ").trimEnd();
+
+    return [format_row(header), format_row(_.map(widths, w => "-".repeat(w))), ..._.map(rows, format_row)].join("\n");
+}
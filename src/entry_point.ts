@@ -1,3 +1,31 @@
+import { ArgumentParser } from "argparse";
+import { EnvOptions } from "./env";
+
+/** The parsed arguments of a subcommand. Each subcommand only gets the ones that it adds in add_arguments(). */
+export type EntryPointArgs = EnvOptions & {
+    /** The name of the subcommand that was ran */
+    entry_point: string;
+    repos: string[];
+    jobs?: number;
+    report?: string;
+    run_id?: string;
+    state_file?: string;
+    resume?: boolean;
+    atomic?: boolean;
+    changelog_dir?: string;
+    releases?: boolean;
+    format?: string;
+    files?: string[];
+};
+
+/** A subcommand of the mmxxl CLI */
+export type EntryPoint = {
+    /** The subcommand's name. Nested subcommands are separated by spaces (`config check`) */
+    name: string;
+    help: string;
+    add_arguments(parser: ArgumentParser): void;
+    run(args: EntryPointArgs): Promise<void>;
+};
 
 var entry_point: string | null = null;
 
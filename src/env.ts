@@ -1,100 +1,168 @@
-import { ArgumentParser } from 'argparse';
 import dotenv from 'dotenv';
 import pino, { Logger } from 'pino';
 import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
 
 dotenv.config({ quiet: process.env.NODE_ENV === 'production' });
 
-const parser = new ArgumentParser({ description: 'Merge tool for GT: New Horizons.' });
+export type EnvOptions = {
+    token?: string;
+    scratchpad?: string;
+    mirror_cache?: boolean;
+    dev_branch?: string;
+    dev_custom?: string;
+    dev_error?: string;
+    dryrun?: boolean;
+    is_gh_action?: boolean;
+    log_level?: string;
+    mmxxl_blacklist?: string[];
+    spotless_blacklist?: string[];
+    update_deps_blacklist?: string[];
+    required_labels?: string[];
+    blocker_labels?: string[];
+    not_revertable_labels?: string[];
+    exclude_changes_requested?: boolean;
+    require_approval?: boolean;
+    require_green_checks?: boolean;
+    merge_order?: string[];
+    priority_labels?: string[];
+};
 
-parser.add_argument('--token', {
-    dest: "token",
-    help: 'Github token override. Takes priority over the env var GH_TOKEN if set.',
-});
-parser.add_argument('--scratchpad', {
-    dest: "scratchpad",
-    help: 'The folder to put repo clones in. Should not contain any other files - MMXXL will remove clones. Takes priority over the env var CLONE_SCRATCHPAD if set.',
-});
-parser.add_argument('--dev-branch', {
-    dest: "dev_branch",
-    help: 'The dev branch name override.',
-});
-parser.add_argument('--dev-custom', {
-    dest: "dev_custom",
-    help: 'The custom dev branch name override. Used for adding extra changes into dev that aren\'t from a PR.',
-});
-parser.add_argument('--dev-error', {
-    dest: "dev_error",
-    help: 'The error dev branch name override. The latest dev branch will be pushed to this branch when a merge conflict occurs.',
-});
-parser.add_argument('--dryrun', {
-    dest: "dryrun",
-    action: "store_true",
-    help: 'Performs every operation as normal, but does not push anything.'
-});
-parser.add_argument('--gh-action', {
-    dest: "is_gh_action",
-    action: "store_true",
-    help: 'Changes some behaviour to make MMXXL work in a github action.'
-});
-parser.add_argument('--log-level', {
-    dest: "log_level",
-    help: 'Sets the log level. One of: trace, debug, info, warn, error, fatal.'
-});
-parser.add_argument('--mmxxl-blacklist', {
-    dest: "mmxxl_blacklist",
-    action: 'append',
-    help: 'Adds a repo to the MMXXL blacklist. No operations will be performed on the given repos.',
-});
-parser.add_argument('--spotless-blacklist', {
-    dest: "spotless_blacklist",
-    action: 'append',
-    help: 'Adds a repo to the spotless blacklist. Spotless will not be ran on the given repos.',
-});
-parser.add_argument('--update-deps-blacklist', {
-    dest: "update_deps_blacklist",
-    action: 'append',
-    help: 'Adds a repo to the updates blacklist. Dependencies will not be updated on the given repos, even if they have inter-repo dependencies.',
-});
+export const prod: boolean = process.env.NODE_ENV === "production";
+
+// These are reassigned by configure(): ES module bindings are live, so importers always see the current values
+export let gh_token: string;
+export let clone_scratchpad: string;
+export let mirror_cache: boolean;
+
+export let dev_branch: string;
+export let dev_custom: string;
+export let dev_error: string;
+export let dryrun: boolean;
+export let is_gh_action: boolean;
+
+const base_logger: Logger = prod ?
+    pino({ transport: { target: "pino-pretty", options: { colorize: false, }, }, level: "debug" }) :
+    pino({ transport: { target: "pino-pretty", options: { colorize: true, }, }, level: "debug" });
+
+/** The state of a worker that processes repos concurrently with other workers */
+export type WorkerContext = {
+    /** Prefixed to every log line */
+    name: string;
+    /** The worker's own clone folder, so that workers never touch each other's clones */
+    scratchpad: string;
+    logger: Logger;
+};
+
+const worker_storage = new AsyncLocalStorage<WorkerContext>();
+
+/** Runs a function as a worker: every log line and clone made by it (and anything it awaits) uses the worker's prefix and scratchpad */
+export function run_in_worker<T>(name: string, scratchpad: string, fn: () => Promise<T>): Promise<T> {
+    return worker_storage.run({
+        name,
+        scratchpad,
+        logger: base_logger.child({}, { msgPrefix: `[${name}] ` }),
+    }, fn);
+}
+
+export function worker_context(): WorkerContext | null {
+    return worker_storage.getStore() || null;
+}
 
-parser.add_argument('repos', {
-    type: 'string',
-    nargs: '*',
-    help: 'A list of repos to update or tag (each in the format `Owner/Repo`: `GTNewHorizons/GT5-Unofficial`)'
+/** The folder that clones should be put in: the worker's scratchpad if called from a worker, otherwise the global one */
+export function get_scratchpad(): string {
+    return worker_storage.getStore()?.scratchpad || clone_scratchpad;
+}
+
+// Forwards to the current worker's logger so that its log lines are prefixed, without every caller having to look it up
+export const logger: Logger = new Proxy(base_logger, {
+    get(target, prop) {
+        const current: Logger = worker_storage.getStore()?.logger || target;
+        const value = Reflect.get(current, prop);
+
+        return typeof(value) === "function" ? value.bind(current) : value;
+    },
 });
 
-const args = parser.parse_args();
+export let mmxxl_blacklist: string[];
+export let spotless_blacklist: string[];
+export let update_deps_blacklist: string[];
 
-export const prod: boolean = process.env.NODE_ENV === "production";
-export const gh_token: string = (args.token || process.env.GH_TOKEN) as string;
-export const clone_scratchpad: string = (args.scratchpad || process.env.CLONE_SCRATCHPAD || path.resolve(process.cwd(), "clones")) as string;
-
-export const dev_branch = args.dev_branch || "dev-mmxxl";
-export const dev_custom = args.dev_custom || (dev_branch + "-custom");
-export const dev_error = args.dev_error || (dev_branch + "-error");
-export const dryrun = args.dryrun;
-export const is_gh_action = Boolean(args.is_gh_action);
-
-export const repos: string[] = args.repos || [];
-
-export const logger: Logger = prod ?
-    pino({ transport: { target: "pino-pretty", options: { colorize: false, }, }, level: args.log_level || "debug" }) :
-    pino({ transport: { target: "pino-pretty", options: { colorize: true, }, }, level: args.log_level || "debug" });
-
-export const mmxxl_blacklist = [
-    "GTNewHorizons/Angelica",
-    ...(args.mmxxl_blacklist || []),
-];
-
-export const spotless_blacklist = [
-    "GTNewHorizons/Et-Futurum-Requiem",
-    "GTNewHorizons/spark",
-    ...(args.spotless_blacklist || []),
-];
-
-export const update_deps_blacklist = [
-    "GTNewHorizons/Et-Futurum-Requiem",
-    "GTNewHorizons/spark",
-    "GTNewHorizons/Hodgepodge",
-    ...(args.update_deps_blacklist || []),
-];
+// Label expressions (see LabelExpressions in requests/labels.ts). Repos can override these in their config.
+/** A PR needs one of these labels to be tested */
+export let required_labels: string[];
+/** A PR with any of these labels is never tested */
+export let blocker_labels: string[];
+/** PR cannot be reverted and the experimental must be cancelled if the PR could not be included after it was previously included */
+export let not_revertable_labels: string[];
+
+// The global review policy (see ReviewPolicy in requests/reviews.ts). Repos can override it in their config.
+export let exclude_changes_requested: boolean;
+export let require_approval: boolean;
+export let require_green_checks: boolean;
+
+/** The keys that PRs are merged into dev in, see OrderKey in requests/ordering.ts */
+export let merge_order: Array<"priority" | "age" | "size">;
+/** Label expressions for PRs that are merged first, highest priority first */
+export let priority_labels: string[];
+
+const configure_listeners: Array<() => void> = [];
+
+/** Registers a callback that is ran every time the options are changed via configure() */
+export function on_configure(listener: () => void) {
+    configure_listeners.push(listener);
+}
+
+/**
+ * Sets the global MMXXL options. Every option that isn't given falls back to its env var or its default.
+ * Called by the CLI after parsing the subcommand's arguments, or by other tools before calling a pipeline.
+ */
+export function configure(options: EnvOptions = {}) {
+    gh_token = (options.token || process.env.GH_TOKEN) as string;
+    clone_scratchpad = (options.scratchpad || process.env.CLONE_SCRATCHPAD || path.resolve(process.cwd(), "clones")) as string;
+    mirror_cache = Boolean(options.mirror_cache);
+
+    dev_branch = options.dev_branch || "dev-mmxxl";
+    dev_custom = options.dev_custom || (dev_branch + "-custom");
+    dev_error = options.dev_error || (dev_branch + "-error");
+    dryrun = Boolean(options.dryrun);
+    is_gh_action = Boolean(options.is_gh_action);
+
+    base_logger.level = options.log_level || "debug";
+
+    mmxxl_blacklist = [
+        "GTNewHorizons/Angelica",
+        ...(options.mmxxl_blacklist || []),
+    ];
+
+    spotless_blacklist = [
+        "GTNewHorizons/Et-Futurum-Requiem",
+        "GTNewHorizons/spark",
+        ...(options.spotless_blacklist || []),
+    ];
+
+    update_deps_blacklist = [
+        "GTNewHorizons/Et-Futurum-Requiem",
+        "GTNewHorizons/spark",
+        "GTNewHorizons/Hodgepodge",
+        ...(options.update_deps_blacklist || []),
+    ];
+
+    // Unlike the blacklists, these replace the defaults so that projects with other labelling conventions can use MMXXL
+    required_labels = options.required_labels || ["testing on zeta", ":construction: testing on zeta"];
+    blocker_labels = options.blocker_labels || ["affects balance", "not ready for testing"];
+    not_revertable_labels = options.not_revertable_labels || ["not revertable"];
+
+    exclude_changes_requested = Boolean(options.exclude_changes_requested);
+    require_approval = Boolean(options.require_approval);
+    require_green_checks = Boolean(options.require_green_checks);
+
+    merge_order = (options.merge_order || ["priority"]) as typeof merge_order;
+    priority_labels = options.priority_labels || [];
+
+    for (const listener of configure_listeners) {
+        listener();
+    }
+}
+
+configure();
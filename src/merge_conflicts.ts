@@ -0,0 +1,101 @@
+import _ from "lodash";
+import { get_changed_files, get_conflicting_files, get_ref_sha, RepoId } from "./requests/repos";
+import { parse_pr, PRId, PullRequest } from "./requests/prs";
+import { delete_sticky_comment, upsert_sticky_comment } from "./requests/comments";
+import { dev_branch, dryrun, logger } from "./env";
+
+export type MergeConflict = {
+    pr: PullRequest;
+    /** The files that could not be merged */
+    files: string[];
+    /** The PRs that were already merged into dev and touch at least one of the conflicting files */
+    overlapping: Array<{
+        pr: PullRequest;
+        files: string[];
+    }>;
+    default_branch: string;
+    default_sha: string;
+    /** The dev branch's commit that the PR was merged into */
+    dev_sha: string;
+    /** The number of PRs that were merged into dev before this one */
+    merged_before: number;
+};
+
+function comment_key() {
+    return `merge-conflict:${dev_branch}`;
+}
+
+/** Inspects an in-progress merge that failed. Must be called before the merge is aborted. */
+export async function diagnose_merge_conflict(repo_id: RepoId, pr: PullRequest, merged: PullRequest[], default_branch: string): Promise<MergeConflict> {
+    const files = await get_conflicting_files(repo_id);
+
+    const overlapping: MergeConflict["overlapping"] = [];
+
+    for (const other of merged) {
+        // checkout_pr names the local branch after the PR number
+        const changed = await get_changed_files(repo_id, default_branch, `${other.number}`);
+
+        const shared = _.intersection(files, changed);
+
+        if (shared.length > 0) {
+            overlapping.push({ pr: other, files: shared });
+        }
+    }
+
+    return {
+        pr,
+        files,
+        overlapping,
+        default_branch,
+        default_sha: await get_ref_sha(repo_id, default_branch),
+        dev_sha: await get_ref_sha(repo_id, "HEAD"),
+        merged_before: merged.length,
+    };
+}
+
+export function format_merge_conflict(conflict: MergeConflict): string {
+    const lines = [
+        `### This PR could not be merged into \`${dev_branch}\``,
+        "",
+        `MergeMasterXXL could not merge this PR into \`${dev_branch}\` because of a merge conflict, so it was left out of the experimental.`,
+        "",
+        `Tested against \`${dev_branch}\` at ${conflict.dev_sha}, which is \`${conflict.default_branch}\` at ${conflict.default_sha} plus the ${conflict.merged_before} PR(s) merged before this one.`,
+        "",
+        "**Conflicting files:**",
+        "",
+        ...(conflict.files.length > 0 ? _.map(conflict.files, f => `- \`${f}\``) : ["- (git did not report any conflicting files)"]),
+    ];
+
+    if (conflict.overlapping.length > 0) {
+        lines.push(
+            "",
+            `**Other PRs in \`${dev_branch}\` that touch these files:**`,
+            "",
+            ..._.map(conflict.overlapping, o => `- ${o.pr.permalink} (${o.pr.title}): ${_.map(o.files, f => `\`${f}\``).join(", ")}`),
+        );
+    }
+
+    lines.push(
+        "",
+        "Rebasing onto the conflicting PRs (or coordinating with their authors) should get this PR back into the experimental. This comment will be removed once the PR merges cleanly again.",
+    );
+
+    return lines.join("\n");
+}
+
+/** Posts or updates the merge conflict comment on the PR */
+export async function report_merge_conflict(conflict: MergeConflict) {
+    if (dryrun) {
+        logger.info(`Not posting merge conflict comment on ${conflict.pr.permalink} (dryrun):\n${format_merge_conflict(conflict)}`);
+        return;
+    }
+
+    await upsert_sticky_comment(parse_pr(conflict.pr.permalink) as PRId, comment_key(), format_merge_conflict(conflict));
+}
+
+/** Removes the merge conflict comment from the PR, if a previous run posted one */
+export async function clear_merge_conflict(permalink: string) {
+    if (dryrun) return;
+
+    await delete_sticky_comment(parse_pr(permalink) as PRId, comment_key());
+}
@@ -0,0 +1,71 @@
+#!/usr/bin/env -S npx tsx
+import _ from "lodash";
+import { ArgumentParser } from "argparse";
+import { set_entry_point } from "./entry_point";
+import yaml from "yaml";
+import { configure, logger } from "./env";
+import { entry_points } from "./cli/commands";
+import { set_host } from "./requests/host";
+import { FakeHost, load_fake_host } from "./requests/fake_host";
+
+const parser = new ArgumentParser({ prog: "mmxxl", description: 'Merge tool for GT: New Horizons.' });
+
+/** What add_subparsers() returns */
+type Subparsers = {
+    add_parser(name: string, options: { help: string, description?: string }): ArgumentParser;
+};
+
+const root: Subparsers = parser.add_subparsers({ title: "commands", dest: "command", required: true });
+
+// Parsers for the command groups (`config` for `config check`), keyed by the group's name
+const groups: {[name: string]: Subparsers} = {};
+
+for (const ep of entry_points) {
+    const path = ep.name.split(" ");
+
+    var subparsers: Subparsers = root;
+
+    for (var i = 0; i < path.length - 1; i++) {
+        const group = path.slice(0, i + 1).join(" ");
+
+        if (!groups[group]) {
+            const group_parser = subparsers.add_parser(path[i], { help: `${group} commands` });
+            groups[group] = group_parser.add_subparsers({ title: "commands", dest: `${group.replaceAll(" ", "_")}_command`, required: true });
+        }
+
+        subparsers = groups[group];
+    }
+
+    const ep_parser = subparsers.add_parser(_.last(path) as string, { help: ep.help, description: ep.help });
+
+    ep.add_arguments(ep_parser);
+
+    ep_parser.set_defaults({ entry_point: ep.name });
+}
+
+const args = parser.parse_args();
+
+const ep = _.find(entry_points, { name: args.entry_point }) as typeof entry_points[0];
+
+set_entry_point(ep.name);
+
+configure(args);
+
+// For running MMXXL offline during development: serves PRs and workflow runs from a fixture file and clones from local bare
+// repos instead of using GitHub. Deliberately not a CLI option, so that it can't be passed to production runs by mistake.
+const fake_host: FakeHost | null = process.env.MMXXL_FAKE_HOST ? load_fake_host(process.env.MMXXL_FAKE_HOST) : null;
+
+if (fake_host) {
+    logger.warn(`Using fake host from ${process.env.MMXXL_FAKE_HOST}`);
+    set_host(fake_host);
+}
+
+try {
+    await ep.run(args);
+} finally {
+    if (fake_host) {
+        logger.debug(yaml.stringify({
+            "Fake host state": fake_host.state,
+        }));
+    }
+}
@@ -1,4 +1,73 @@
+import _ from "lodash";
+import { DepGraph } from "dependency-graph";
 
 export async function wait(ms: number) {
     await new Promise(resolve => setTimeout(resolve, ms));
 }
+
+/**
+ * Calls `fn` for every item, with at most `jobs` calls running at once. `worker` is the index of the pool slot running the call.
+ * Once a call throws, no new items are started: the first error is rethrown after the running calls have finished.
+ */
+export async function run_pool<T>(items: T[], jobs: number, fn: (item: T, worker: number) => Promise<void>) {
+    var next = 0;
+    var failed = false;
+    var error: unknown = null;
+
+    async function run_worker(worker: number) {
+        while (!failed && next < items.length) {
+            const item = items[next++];
+
+            try {
+                await fn(item, worker);
+            } catch (e) {
+                if (!failed) {
+                    failed = true;
+                    error = e;
+                }
+            }
+        }
+    }
+
+    await Promise.all(_.times(Math.max(1, Math.min(jobs, items.length)), run_worker));
+
+    if (failed) throw error;
+}
+
+/**
+ * Finds the dependency cycles between the given nodes of a graph, without throwing like DepGraph.overallOrder() does.
+ * Each cycle is returned as the path that leads back to its first node (`[a, b, a]`), and each node is in at most one of the cycles.
+ */
+export function find_cycles<T>(graph: DepGraph<T>, nodes: string[]): string[][] {
+    const cycles: string[][] = [];
+    const visited: {[node: string]: "visiting" | "done"} = {};
+    const path: string[] = [];
+    const in_cycle = new Set<string>();
+
+    function visit(node: string) {
+        visited[node] = "visiting";
+        path.push(node);
+
+        for (const dep of graph.directDependenciesOf(node)) {
+            if (visited[dep] === "visiting") {
+                const cycle = path.slice(path.indexOf(dep));
+
+                if (!_.some(cycle, n => in_cycle.has(n))) {
+                    cycles.push([...cycle, dep]);
+                    cycle.forEach(n => in_cycle.add(n));
+                }
+            } else if (!visited[dep]) {
+                visit(dep);
+            }
+        }
+
+        path.pop();
+        visited[node] = "done";
+    }
+
+    for (const node of nodes) {
+        if (!visited[node] && graph.hasNode(node)) visit(node);
+    }
+
+    return cycles;
+}
@@ -0,0 +1,55 @@
+import fs from "fs";
+import path from "path";
+import { RepoId } from "./requests/repos";
+import { UpdateDevResults } from "./update_dev";
+import { TagState } from "./tag_dev";
+import { dev_branch, dryrun, logger } from "./env";
+
+/** The machine-readable summary of one update-dev or tag-dev run */
+export type RunReport = {
+    command: string;
+    started_at: string;
+    finished_at: string | null;
+    success: boolean;
+    error: string | null;
+    dryrun: boolean;
+    dev_branch: string;
+    repos: RepoId[];
+    update_dev?: UpdateDevResults;
+    tag_dev?: TagState;
+};
+
+export function new_report(command: string, repos: RepoId[]): RunReport {
+    return {
+        command,
+        started_at: new Date().toISOString(),
+        finished_at: null,
+        success: false,
+        error: null,
+        dryrun,
+        dev_branch,
+        repos,
+    };
+}
+
+export function write_report(file: string, report: RunReport) {
+    fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(report, null, 2));
+
+    logger.info(`Wrote run report to ${file}`);
+}
+
+/** Runs a pipeline, then writes the report whether or not the pipeline threw. Does nothing extra if no file was given. */
+export async function run_with_report(file: string | null | undefined, report: RunReport, run: () => Promise<unknown>) {
+    try {
+        await run();
+        report.success = true;
+    } catch (e) {
+        report.error = `${e}`;
+        throw e;
+    } finally {
+        report.finished_at = new Date().toISOString();
+
+        if (file) write_report(file, report);
+    }
+}
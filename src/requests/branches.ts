@@ -1,5 +1,5 @@
 import _ from "lodash";
-import { octokit } from "./types";
+import { get_host } from "./host";
 import { logger } from "../env";
 import { Commit, COMMIT_PR, parse_repo_id, RepoId } from "./repos";
 import yaml from "yaml";
@@ -8,15 +8,9 @@ import { dev_branch } from "../env";
 
 export async function get_branch_update_time(repo_id: RepoId, branch: string): Promise<Date | null> {
     try {
-        const { owner, repo } = parse_repo_id(repo_id);
+        const [head] = await get_host().get_branch_commits(parse_repo_id(repo_id), branch, 1);
 
-        const resp = await octokit.request('GET /repos/{owner}/{repo}/branches/{branch}', {
-            owner,
-            repo,
-            branch,
-        });
-    
-        const date = _.get(resp.data.commit.committer || resp.data.commit.commit.author, "date");
+        const date = head && _.get(head.committer || head.author, "date");
     
         return date && new Date(date) || null;
     } catch (e) {
@@ -26,29 +20,16 @@ export async function get_branch_update_time(repo_id: RepoId, branch: string): P
 }
 
 export async function delete_dev(repo_id: RepoId) {
-    const { owner, repo } = parse_repo_id(repo_id);
-
-    await octokit.request("DELETE /repos/{owner}/{repo}/branches/{branch}", {
-        owner,
-        repo,
-        branch: dev_branch,
-    });
+    await get_host().delete_branch(parse_repo_id(repo_id), dev_branch);
 }
 
 export async function get_branch_commits(repo_id: RepoId, branch: string): Promise<Commit[]> {
     try {
-        const { owner, repo } = parse_repo_id(repo_id);
+        const result = await get_host().get_branch_commits(parse_repo_id(repo_id), branch, 5);
     
-        const result = await octokit.request("GET /repos/{owner}/{repo}/commits", {
-            owner,
-            repo,
-            sha: branch,
-            per_page: 5,
-        });
-    
-        return _.map(result.data, commit => {
+        return _.map(result, commit => {
             
-            const lines = commit.commit.message.split(NEWLINE);
+            const lines = commit.message.split(NEWLINE);
 
             var subject = lines[0];
             
@@ -64,12 +45,12 @@ export async function get_branch_commits(repo_id: RepoId, branch: string): Promi
 
             return {
                 commit: commit.sha,
-                author_name: commit.commit.author?.name,
-                author_email: commit.commit.author?.email,
-                author_date: (commit.commit.author as any)?.date,
-                committer_name: commit.commit.committer?.name,
-                committer_email: commit.commit.committer?.email,
-                committer_date: (commit.commit.committer as any)?.date,
+                author_name: commit.author?.name,
+                author_email: commit.author?.email,
+                author_date: (commit.author as any)?.date,
+                committer_name: commit.committer?.name,
+                committer_email: commit.committer?.email,
+                committer_date: (commit.committer as any)?.date,
                 prid,
                 subject,
                 message: lines.slice(1).join("\n").trim(),
@@ -85,14 +66,32 @@ export type DevBranchStatus = {
     ["Included PRs"]: string[];
     ["Removed PRs"]: string[];
     ["Dependencies"]: string[];
+    // The SHAs that dev was built from. Missing in statuses written by older versions, which can only be compared by date.
+    /** The head SHA of every included PR */
+    ["PR Heads"]?: {[permalink: string]: string};
+    /** The head SHA of every PR that was ready for testing but could not be merged, or was left out because a PR it depends on could not be */
+    ["Unmerged PR Heads"]?: {[permalink: string]: string};
+    ["Default Branch SHA"]?: string;
+    /** Null if there was no custom branch */
+    ["Custom Branch SHA"]?: string | null;
+    /** Why each PR that is ready for testing was left out. Missing in statuses written by older versions. */
+    ["Excluded PRs"]?: {[permalink: string]: string};
 };
 
+/** Finds the status in the legacy "Dev Branch Status" commit format. See status.ts for where statuses are stored now. */
 export function get_dev_branch_status(commits: Commit[]): DevBranchStatus | null {
     // Scan the last few commits because we might have added a dep update commit after the status commit
     for (const commit of commits) {
         if (commit && commit.committer_name == "MergeMasterXXL" && commit.subject == "Dev Branch Status") {
             try {
-                return yaml.parse(Buffer.from(commit.message, 'base64').toString('utf-8'));
+                const status = yaml.parse(Buffer.from(commit.message, 'base64').toString('utf-8')) || {};
+
+                return {
+                    ...status,
+                    "Included PRs": status["Included PRs"] || [],
+                    "Removed PRs": status["Removed PRs"] || [],
+                    "Dependencies": status["Dependencies"] || [],
+                };
             } catch (e) {
                 logger.error(`Could not parse Dev Branch Status commit: ${e}`);
                 return null;
@@ -0,0 +1,55 @@
+import _ from "lodash";
+import { get_host } from "./host";
+import { logger } from "../env";
+import { PRId, stringify_pr } from "./prs";
+
+export type CommentId = number;
+
+/** The hidden marker that identifies a sticky comment. The key lets several kinds of sticky comments coexist on one PR */
+function sticky_marker(key: string) {
+    return `<!-- mmxxl:${key} -->`;
+}
+
+export async function find_sticky_comment(pr_id: PRId, key: string): Promise<CommentId | null> {
+    const marker = sticky_marker(key);
+
+    const comment = _.find(await get_host().list_comments(pr_id), c => c.body.startsWith(marker));
+
+    return comment ? comment.id : null;
+}
+
+/** Posts a comment on the PR, or updates the existing one with the same key */
+export async function upsert_sticky_comment(pr_id: PRId, key: string, body: string) {
+    body = `${sticky_marker(key)}\n${body}`;
+
+    try {
+        const existing = await find_sticky_comment(pr_id, key);
+
+        if (existing) {
+            await get_host().update_comment(pr_id.repo_id, existing, body);
+
+            logger.info(`Updated ${key} comment on ${stringify_pr(pr_id)}`);
+        } else {
+            await get_host().create_comment(pr_id, body);
+
+            logger.info(`Posted ${key} comment on ${stringify_pr(pr_id)}`);
+        }
+    } catch (e) {
+        logger.error(`Could not post ${key} comment on ${stringify_pr(pr_id)}: ${e}`);
+    }
+}
+
+/** Removes the comment with the given key from the PR, if there is one */
+export async function delete_sticky_comment(pr_id: PRId, key: string) {
+    try {
+        const existing = await find_sticky_comment(pr_id, key);
+
+        if (!existing) return;
+
+        await get_host().delete_comment(pr_id.repo_id, existing);
+
+        logger.info(`Removed ${key} comment from ${stringify_pr(pr_id)}`);
+    } catch (e) {
+        logger.error(`Could not remove ${key} comment from ${stringify_pr(pr_id)}: ${e}`);
+    }
+}
@@ -0,0 +1,331 @@
+import _ from "lodash";
+import path from "path";
+import fs from "fs";
+import yaml from "yaml";
+import { exec, normalize_repo_id, RepoId, RepoInfo, stringify_repo_id } from "./repos";
+import { CheckState, PRId, ReviewDecision, stringify_pr } from "./prs";
+import { Host, HostComment, HostCommit, HostRelease, HostWorkflowRun, QLPR } from "./host";
+
+export type FakePR = {
+    number: number;
+    title: string;
+    body?: string;
+    labels?: string[];
+    /** The branch the PR targets. Defaults to master */
+    base?: string;
+    /** The PR's branch, in the repo's bare repo */
+    head: string;
+    draft?: boolean;
+    merged?: boolean;
+    /** Closed without being merged */
+    closed?: boolean;
+    /** Defaults to the date of the head branch's latest commit */
+    updated_at?: string;
+    /** Defaults to null (no review required) */
+    review_decision?: ReviewDecision;
+    /** The combined state of the head commit's checks. Defaults to null (no checks) */
+    checks?: CheckState;
+    /** The number of changed lines. Unknown by default */
+    size?: number;
+    /** The login of the PR's author. Defaults to a deleted account */
+    author?: string;
+};
+
+export type FakeRepo = {
+    prs?: FakePR[];
+    /** The conclusion of every workflow run started by pushing a tag. Defaults to success */
+    workflow_conclusion?: string;
+};
+
+export type FakeHostFixture = {
+    /** The folder that holds a bare repo for every repo, at `<owner>/<repo>.git` */
+    repos_path: string;
+    /** The repos in the experimental manifest. Defaults to every repo in `repos` */
+    manifest?: RepoId[];
+    repos: {[repo: RepoId]: FakeRepo};
+    /** The versions of each maven artifact, oldest first */
+    maven?: {[artifact: string]: string[]};
+};
+
+/** Everything the pipelines did to the fake host, for inspecting after a run */
+export type FakeHostState = {
+    /** Keyed by PR permalink */
+    comments: {[pr: string]: HostComment[]};
+    workflow_runs: {[repo: RepoId]: HostWorkflowRun[]};
+    cancelled_workflow_runs: number[];
+    deleted_branches: string[];
+    releases: {[repo: RepoId]: HostRelease[]};
+};
+
+export type FakeHost = Host & {
+    fixture: FakeHostFixture;
+    state: FakeHostState;
+};
+
+const COMMIT_FIELDS = ["%H", "%an", "%ae", "%aI", "%cn", "%ce", "%cI", "%B"];
+
+/** Renders a Markdown body roughly like GitHub's bodyText does: links become their text and list markers are dropped */
+function to_body_text(body: string): string {
+    return body
+        .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+        .replace(/^(\s*)[-*+]\s+(\[[ xX]\]\s+)?/gm, "$1");
+}
+
+/** A host that serves PRs and workflow runs from fixtures, and clones from local bare repos instead of GitHub */
+export function create_fake_host(fixture: FakeHostFixture): FakeHost {
+    const state: FakeHostState = {
+        comments: {},
+        workflow_runs: {},
+        cancelled_workflow_runs: [],
+        deleted_branches: [],
+        releases: {},
+    };
+
+    var next_id = 1;
+
+    function get_bare_path(repo_info: RepoInfo) {
+        return path.resolve(fixture.repos_path, repo_info.owner, `${repo_info.repo}.git`);
+    }
+
+    function get_fake_repo(repo_info: RepoInfo): FakeRepo {
+        return fixture.repos[stringify_repo_id(repo_info)] || {};
+    }
+
+    async function to_qlpr(repo_info: RepoInfo, pr: FakePR): Promise<QLPR> {
+        var updated_at = pr.updated_at;
+
+        if (!updated_at) {
+            updated_at = (await exec(`git log -1 --format=%cI '${pr.head}'`, { cwd: get_bare_path(repo_info) })).stdout.trim();
+        }
+
+        return {
+            labels: {
+                nodes: _.map(pr.labels || [], name => ({ name })),
+            },
+            baseRefName: pr.base || "master",
+            body: pr.body || "",
+            bodyText: to_body_text(pr.body || ""),
+            headRefName: pr.head,
+            headRefOid: (await exec(`git rev-parse '${pr.head}'`, { cwd: get_bare_path(repo_info) })).stdout.trim(),
+            id: `${stringify_repo_id(repo_info)}#${pr.number}`,
+            isDraft: Boolean(pr.draft),
+            locked: false,
+            merged: Boolean(pr.merged),
+            closed: Boolean(pr.merged || pr.closed),
+            number: pr.number,
+            permalink: stringify_pr({ repo_id: repo_info, pr: pr.number }),
+            title: pr.title,
+            author: pr.author ? { login: pr.author } : null,
+            updatedAt: updated_at,
+            reviewDecision: pr.review_decision || null,
+            additions: pr.size,
+            deletions: pr.size === undefined ? undefined : 0,
+            commits: {
+                nodes: [{ commit: { statusCheckRollup: pr.checks ? { state: pr.checks } : null } }],
+            },
+        };
+    }
+
+    function find_pr(pr_id: PRId): FakePR {
+        const pr = _.find(get_fake_repo(pr_id.repo_id).prs, { number: pr_id.pr });
+
+        if (!pr) throw new Error(`PR ${stringify_pr(pr_id)} does not exist`);
+
+        return pr;
+    }
+
+    return {
+        fixture,
+        state,
+
+        async get_manifest_repos() {
+            return _.map(fixture.manifest || _.keys(fixture.repos), normalize_repo_id);
+        },
+
+        get_clone_url(repo_info) {
+            return get_bare_path(repo_info);
+        },
+
+        async get_open_prs(repo_info) {
+            const open = _.filter(get_fake_repo(repo_info).prs, pr => !pr.merged && !pr.closed);
+
+            return Promise.all(_.map(open, pr => to_qlpr(repo_info, pr)));
+        },
+
+        async get_merged_prs(repo_info, count) {
+            const merged = _.filter(get_fake_repo(repo_info).prs, pr => Boolean(pr.merged));
+
+            return Promise.all(_.map(_.takeRight(merged, count), pr => to_qlpr(repo_info, pr)));
+        },
+
+        async get_pr(pr_id) {
+            return to_qlpr(pr_id.repo_id, find_pr(pr_id));
+        },
+
+        async checkout_pr(repo_path, pr_id, local_branch) {
+            const pr = find_pr(pr_id);
+
+            await exec(`git fetch '${get_bare_path(pr_id.repo_id)}' '+refs/heads/${pr.head}:refs/heads/${local_branch}'`, { cwd: repo_path });
+            await exec(`git checkout ${local_branch}`, { cwd: repo_path });
+        },
+
+        async get_branch_commits(repo_info, branch, count) {
+            const format = COMMIT_FIELDS.join("%x1f") + "%x1e";
+
+            const result = await exec(`git log -n ${count} --format='${format}' '${branch}' --`, { cwd: get_bare_path(repo_info) });
+
+            return _(result.stdout.split("\x1e"))
+                .map(chunk => chunk.trim())
+                .filter(chunk => chunk.length > 0)
+                .map(chunk => {
+                    const [sha, author_name, author_email, author_date, committer_name, committer_email, committer_date, message] = chunk.split("\x1f");
+
+                    return {
+                        sha,
+                        message,
+                        author: { name: author_name, email: author_email, date: author_date },
+                        committer: { name: committer_name, email: committer_email, date: committer_date },
+                    } as HostCommit;
+                })
+                .value();
+        },
+
+        async delete_branch(repo_info, branch) {
+            await exec(`git branch -D '${branch}'`, { cwd: get_bare_path(repo_info) });
+
+            state.deleted_branches.push(`${stringify_repo_id(repo_info)}:${branch}`);
+        },
+
+        async get_default_branch(repo_info) {
+            return (await exec(`git symbolic-ref --short HEAD`, { cwd: get_bare_path(repo_info) })).stdout.trim();
+        },
+
+        async get_ref(repo_info, ref) {
+            try {
+                return (await exec(`git rev-parse --verify -q '${ref}'`, { cwd: get_bare_path(repo_info) })).stdout.trim();
+            } catch (e) {
+                return null;
+            }
+        },
+
+        async get_file(repo_info, sha, file) {
+            try {
+                return (await exec(`git show '${sha}:${file}'`, { cwd: get_bare_path(repo_info) })).stdout;
+            } catch (e) {
+                return null;
+            }
+        },
+
+        async compare_commits(repo_info, base, head) {
+            const counts = (await exec(`git rev-list --left-right --count '${base}...${head}'`, { cwd: get_bare_path(repo_info) })).stdout.trim().split(/\s+/);
+
+            return { ahead_by: parseInt(counts[1]), behind_by: parseInt(counts[0]) };
+        },
+
+        async find_workflow_run(repo_info, sha, tag_name) {
+            const repo_id = stringify_repo_id(repo_info);
+            const runs = state.workflow_runs[repo_id] = state.workflow_runs[repo_id] || [];
+
+            const existing = _.find(runs, { head_branch: tag_name });
+
+            if (existing) return existing;
+
+            try {
+                const tagged = (await exec(`git rev-parse '${tag_name}^{commit}'`, { cwd: get_bare_path(repo_info) })).stdout.trim();
+
+                if (tagged !== sha) return null;
+            } catch (e) {
+                // The tag hasn't been pushed
+                return null;
+            }
+
+            const run: HostWorkflowRun = {
+                id: next_id++,
+                head_branch: tag_name,
+                status: "completed",
+                conclusion: get_fake_repo(repo_info).workflow_conclusion || "success",
+            };
+
+            runs.push(run);
+
+            return run;
+        },
+
+        async get_workflow_run(repo_info, run_id) {
+            return _.find(state.workflow_runs[stringify_repo_id(repo_info)], { id: run_id }) || null;
+        },
+
+        get_workflow_run_url(repo_info, run_id) {
+            return `fake://${stringify_repo_id(repo_info)}/actions/runs/${run_id}`;
+        },
+
+        async cancel_workflow_run(repo_info, run_id) {
+            const run = _.find(state.workflow_runs[stringify_repo_id(repo_info)], { id: run_id });
+
+            if (run && run.status !== "completed") {
+                run.status = "completed";
+                run.conclusion = "cancelled";
+            }
+
+            state.cancelled_workflow_runs.push(run_id);
+        },
+
+        async list_comments(pr_id) {
+            return state.comments[stringify_pr(pr_id)] || [];
+        },
+
+        async create_comment(pr_id, body) {
+            const permalink = stringify_pr(pr_id);
+
+            state.comments[permalink] = [...(state.comments[permalink] || []), { id: next_id++, body }];
+        },
+
+        async update_comment(repo_info, comment_id, body) {
+            for (const comments of _.values(state.comments)) {
+                const comment = _.find(comments, { id: comment_id });
+
+                if (comment) comment.body = body;
+            }
+        },
+
+        async delete_comment(repo_info, comment_id) {
+            state.comments = _.mapValues(state.comments, comments => _.reject(comments, { id: comment_id }));
+        },
+
+        async get_release(repo_info, tag_name) {
+            return _.find(state.releases[stringify_repo_id(repo_info)], { tag_name }) || null;
+        },
+
+        async create_release(repo_info, content) {
+            const repo_id = stringify_repo_id(repo_info);
+            const id = next_id++;
+
+            const release: HostRelease = { ...content, id, url: `fake://${repo_id}/releases/${id}` };
+
+            state.releases[repo_id] = [...(state.releases[repo_id] || []), release];
+
+            return release;
+        },
+
+        async update_release(repo_info, release_id, content) {
+            const release = _.find(state.releases[stringify_repo_id(repo_info)], { id: release_id });
+
+            if (!release) throw new Error(`Release ${release_id} does not exist`);
+
+            return Object.assign(release, content);
+        },
+
+        async get_maven_versions(artifact) {
+            return _.get(fixture.maven, artifact, []);
+        },
+    };
+}
+
+/** Loads a fake host from a yaml or json fixture file. `repos_path` is resolved relative to the file. */
+export function load_fake_host(file: string): FakeHost {
+    const fixture: FakeHostFixture = yaml.parse(fs.readFileSync(file).toString());
+
+    fixture.repos_path = path.resolve(path.dirname(file), fixture.repos_path || ".");
+
+    return create_fake_host(fixture);
+}
@@ -0,0 +1,137 @@
+import { CheckState, PRId, ReviewDecision } from "./prs";
+import { RepoId, RepoInfo } from "./repos";
+import { github_host } from "./github";
+
+/** A PR, in the shape that the GraphQL API returns it */
+export type QLPR = {
+    labels: {
+        nodes: Array<{ name: string }>
+    },
+    baseRefName: string,
+    /** The raw Markdown of the PR body */
+    body: string,
+    /** The PR body rendered as plain text, without link URLs */
+    bodyText: string,
+    headRefName: string,
+    /** The SHA of the PR's head commit */
+    headRefOid?: string,
+    id: string,
+    isDraft: boolean,
+    locked: boolean,
+    merged: boolean,
+    /** Whether the PR was closed, which includes merged PRs */
+    closed: boolean,
+    /** PR number */
+    number: number,
+    /** PR browser link */
+    permalink: string,
+    title: string,
+    /** Null when the author's account was deleted */
+    author?: { login: string } | null,
+    updatedAt: string,
+    /** Missing when the PR was fetched through the REST API */
+    reviewDecision?: ReviewDecision,
+    /** The number of added and deleted lines */
+    additions?: number,
+    deletions?: number,
+    /** The PR's head commit, with the combined state of its checks (null if it has none) */
+    commits?: {
+        nodes: Array<{ commit: { statusCheckRollup: { state: CheckState } | null } }>
+    },
+};
+
+export type HostCommit = {
+    sha: string;
+    message: string;
+    author: { name?: string, email?: string, date?: string } | null;
+    committer: { name?: string, email?: string, date?: string } | null;
+};
+
+export type HostWorkflowRun = {
+    id: number;
+    head_branch: string | null;
+    status: string | null;
+    conclusion: string | null;
+};
+
+export type HostComment = {
+    id: number;
+    body: string;
+};
+
+export type HostRelease = {
+    id: number;
+    tag_name: string;
+    name: string;
+    body: string;
+    prerelease: boolean;
+    /** The release's browser link */
+    url: string;
+};
+
+/** What a release is created or updated with */
+export type HostReleaseContent = Omit<HostRelease, "id" | "url">;
+
+/**
+ * Everything MMXXL needs from the service that hosts the repos.
+ * The real implementation talks to GitHub (see github.ts); fake_host.ts serves fixtures and local bare repos for offline runs.
+ */
+export type Host = {
+    /** The repos in the experimental manifest */
+    get_manifest_repos(): Promise<RepoId[]>;
+    /** The url that repos are cloned from and pushed to */
+    get_clone_url(repo_info: RepoInfo): string;
+
+    get_open_prs(repo_info: RepoInfo): Promise<QLPR[]>;
+    /** The most recently merged PRs, oldest first */
+    get_merged_prs(repo_info: RepoInfo, count: number): Promise<QLPR[]>;
+    get_pr(pr_id: PRId): Promise<QLPR>;
+    /** Fetches the PR's head into a new local branch of the clone at `repo_path` and checks it out */
+    checkout_pr(repo_path: string, pr_id: PRId, local_branch: string): Promise<void>;
+
+    /** The latest commits on a branch, newest first */
+    get_branch_commits(repo_info: RepoInfo, branch: string, count: number): Promise<HostCommit[]>;
+    delete_branch(repo_info: RepoInfo, branch: string): Promise<void>;
+    get_default_branch(repo_info: RepoInfo): Promise<string>;
+    /** The SHA that a full ref (`refs/...`) points at, or null if it does not exist */
+    get_ref(repo_info: RepoInfo, ref: string): Promise<string | null>;
+    /** The contents of a file at a commit, or null if it does not exist */
+    get_file(repo_info: RepoInfo, sha: string, file: string): Promise<string | null>;
+    /** How many commits `head` has that `base` doesn't (ahead), and the other way around (behind) */
+    compare_commits(repo_info: RepoInfo, base: string, head: string): Promise<{ ahead_by: number, behind_by: number }>;
+
+    /** Finds the workflow run that a pushed tag started, or null if it hasn't started (yet) */
+    find_workflow_run(repo_info: RepoInfo, sha: string, tag_name: string): Promise<HostWorkflowRun | null>;
+    get_workflow_run(repo_info: RepoInfo, run_id: number): Promise<HostWorkflowRun | null>;
+    get_workflow_run_url(repo_info: RepoInfo, run_id: number): string;
+    cancel_workflow_run(repo_info: RepoInfo, run_id: number): Promise<void>;
+
+    list_comments(pr_id: PRId): Promise<HostComment[]>;
+    create_comment(pr_id: PRId, body: string): Promise<void>;
+    update_comment(repo_info: RepoInfo, comment_id: number, body: string): Promise<void>;
+    delete_comment(repo_info: RepoInfo, comment_id: number): Promise<void>;
+
+    /** The release of a tag, including draft releases, or null if the tag has none */
+    get_release(repo_info: RepoInfo, tag_name: string): Promise<HostRelease | null>;
+    create_release(repo_info: RepoInfo, release: HostReleaseContent): Promise<HostRelease>;
+    /** Replaces the contents of a release, and publishes it if it is a draft */
+    update_release(repo_info: RepoInfo, release_id: number, release: HostReleaseContent): Promise<HostRelease>;
+
+    /** The versions of a GTNH maven artifact, oldest first */
+    get_maven_versions(artifact: string): Promise<string[]>;
+};
+
+var current_host: Host | null = null;
+
+/** The host that every request goes through. Defaults to GitHub. */
+export function get_host(): Host {
+    if (!current_host) {
+        current_host = github_host;
+    }
+
+    return current_host;
+}
+
+export function set_host(host: Host) {
+    current_host = host;
+}
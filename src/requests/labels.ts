@@ -0,0 +1,57 @@
+import _ from "lodash";
+import { blocker_labels, not_revertable_labels, required_labels } from "../env";
+import { RepoConfig } from "./repos";
+
+/**
+ * A list of label expressions. `*` matches any text and labels are compared case insensitively.
+ * An expression starting with `!` excludes the labels it matches, even if another expression includes them:
+ * `["testing on *", "!testing on alpha"]` matches every testing label except the alpha one.
+ */
+export type LabelExpressions = string[];
+
+/** Which labels decide whether a PR is tested */
+export type LabelPolicy = {
+    /** A PR needs at least one matching label to be tested */
+    required: LabelExpressions;
+    /** A PR with any matching label is never tested */
+    blockers: LabelExpressions;
+    /** A PR with any matching label cancels the experimental if it can no longer be merged after it was included */
+    not_revertable: LabelExpressions;
+};
+
+function to_regex(pattern: string): RegExp {
+    return new RegExp(`^${_.map(pattern.trim().split("*"), _.escapeRegExp).join(".*")}$`, "i");
+}
+
+/** Whether a label matches a single pattern, ignoring any `!` prefix */
+export function label_matches(label: string, pattern: string): boolean {
+    return to_regex(pattern.replace(/^\s*!/, "")).test(label.trim());
+}
+
+/** The labels that match the expressions */
+export function matching_labels(labels: string[], expressions: LabelExpressions): string[] {
+    const [excludes, includes] = _.partition(expressions, e => e.trim().startsWith("!"));
+
+    return _.filter(labels, label =>
+        _.some(includes, pattern => label_matches(label, pattern)) &&
+        !_.some(excludes, pattern => label_matches(label, pattern))
+    );
+}
+
+/** The expressions that include labels, for messages */
+export function describe_expressions(expressions: LabelExpressions): string {
+    return _.map(_.reject(expressions, e => e.trim().startsWith("!")), e => `'${e}'`).join(", ");
+}
+
+/** The label policy for a repo: the global one, unless the repo config overrides it */
+export function get_label_policy(config: RepoConfig | null): LabelPolicy {
+    return {
+        required: config ? config.requiredLabels : required_labels,
+        blockers: config ? config.blockerLabels : blocker_labels,
+        not_revertable: config ? config.notRevertableLabels : not_revertable_labels,
+    };
+}
+
+export function is_not_revertable(labels: string[], policy: LabelPolicy): boolean {
+    return matching_labels(labels, policy.not_revertable).length > 0;
+}
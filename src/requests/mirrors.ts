@@ -0,0 +1,73 @@
+import path from "path";
+import fs from "fs";
+import { clone_scratchpad, logger } from "../env";
+import { exec, parse_repo_id, RepoId } from "./repos";
+
+// Mirrors are bare repos that persist between runs. Each run checks a mirror out as a worktree at the usual clone path, and
+// removes the worktree afterwards. Since worktrees share their refs with the mirror, every local branch is deleted when the
+// worktree is removed so that the next run sees the same refs as a fresh clone would. The same goes for the dev branch
+// statuses (see status.ts), which are fetched into refs/mmxxl and could otherwise be mistaken for the remote's.
+
+export function get_mirror_path(repo_id: RepoId) {
+    const { owner, repo } = parse_repo_id(repo_id);
+
+    // Always in the global scratchpad, even for workers: each repo is only processed by one worker at a time
+    return path.join(clone_scratchpad, ".mirrors", owner, `${repo}.git`);
+}
+
+/** Creates the mirror for a repo if it doesn't exist, then fetches every branch and tag into it */
+export async function update_mirror(repo_id: RepoId, url: string) {
+    const mirror_path = get_mirror_path(repo_id);
+
+    if (!fs.existsSync(mirror_path)) {
+        fs.mkdirSync(path.dirname(mirror_path), { recursive: true });
+
+        await exec(`git init --bare ${mirror_path}`);
+        await exec(`git remote add origin ${url}`, { cwd: mirror_path });
+        // Fetch into remote-tracking refs like a normal clone, so that worktrees can create local branches from them
+        await exec(`git config remote.origin.fetch '+refs/heads/*:refs/remotes/origin/*'`, { cwd: mirror_path });
+
+        logger.info(`Created mirror for ${repo_id}`);
+    } else {
+        // The url contains the token in gh actions, which may have changed since the last run
+        await exec(`git remote set-url origin ${url}`, { cwd: mirror_path });
+    }
+
+    await exec(`git fetch --prune --prune-tags --tags origin`, { cwd: mirror_path });
+    await exec(`git remote set-head origin --auto`, { cwd: mirror_path });
+
+    logger.info(`Updated mirror for ${repo_id}`);
+}
+
+/** Deletes the local branches and statuses left behind by a previous worktree */
+async function clean_mirror(mirror_path: string) {
+    await exec(`git worktree prune`, { cwd: mirror_path });
+    await exec(`git for-each-ref --format='%(refname)' refs/heads refs/mmxxl | xargs -r -n 1 git update-ref -d`, { cwd: mirror_path });
+}
+
+/** Checks out the repo's default branch from its mirror into `repo_path`, replacing a clone */
+export async function add_worktree(repo_id: RepoId, repo_path: string, url: string, checkout: boolean): Promise<string> {
+    const mirror_path = get_mirror_path(repo_id);
+
+    await update_mirror(repo_id, url);
+    await clean_mirror(mirror_path);
+
+    const default_branch = (await exec(`git symbolic-ref refs/remotes/origin/HEAD | sed 's|refs/remotes/origin/||'`, { cwd: mirror_path })).stdout.trim();
+
+    await exec(`git worktree add ${checkout ? "" : "--no-checkout"} -b ${default_branch} ${repo_path} origin/${default_branch}`, { cwd: mirror_path });
+
+    return default_branch;
+}
+
+/** Removes a worktree created by add_worktree. Returns false if the repo doesn't have a mirror. */
+export async function remove_worktree(repo_id: RepoId, repo_path: string): Promise<boolean> {
+    const mirror_path = get_mirror_path(repo_id);
+
+    if (!fs.existsSync(mirror_path)) return false;
+
+    // A plain rm is more reliable than `git worktree remove` when the worktree is in the middle of a merge
+    await exec(`rm -rf ${repo_path}`);
+    await clean_mirror(mirror_path);
+
+    return true;
+}
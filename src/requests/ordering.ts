@@ -0,0 +1,105 @@
+import _ from "lodash";
+import { DepGraph } from "dependency-graph";
+import { merge_order, priority_labels } from "../env";
+import { matching_labels } from "./labels";
+import { PullRequest } from "./prs";
+import { RepoConfig } from "./repos";
+
+/**
+ * What PRs are ordered by when they are merged into dev. Earlier PRs win conflicts, since the PR that no longer merges is the one that gets dropped.
+ * - `priority`: PRs listed in the repo config's `mmxxlPriority` first (in the listed order), then PRs with a priority label (in the order of the label expressions)
+ * - `age`: older PRs first
+ * - `size`: PRs that change fewer lines first
+ */
+export type OrderKey = "priority" | "age" | "size";
+
+export const ORDER_KEYS: OrderKey[] = ["priority", "age", "size"];
+
+export type OrderPolicy = {
+    /** The keys to sort by, most important first. Ties keep the order that the host listed the PRs in. */
+    keys: OrderKey[];
+    /** Label expressions, see LabelExpressions */
+    priority_labels: string[];
+    /** Permalinks of the PRs to merge before every other PR */
+    explicit: string[];
+};
+
+/** The order policy for a repo: the global one, unless the repo config overrides it */
+export function get_order_policy(config: RepoConfig | null): OrderPolicy {
+    return {
+        keys: config ? config.mergeOrder : merge_order,
+        priority_labels: config ? config.priorityLabels : priority_labels,
+        explicit: config ? config.mmxxlPriority : [],
+    };
+}
+
+function get_rank(pr: PullRequest, key: OrderKey, policy: OrderPolicy): number {
+    switch (key) {
+        case "priority": {
+            const explicit = policy.explicit.indexOf(pr.permalink);
+
+            if (explicit !== -1) return explicit;
+
+            const label = _.findIndex(policy.priority_labels, expression => matching_labels(pr.labels, [expression]).length > 0);
+
+            return label !== -1 ? policy.explicit.length + label : Infinity;
+        }
+        case "age": {
+            // PR numbers only ever go up, unlike the update time
+            return pr.number;
+        }
+        case "size": {
+            return pr.size === null ? Infinity : pr.size;
+        }
+    }
+}
+
+/**
+ * Sorts PRs by the policy, without ever putting a PR before one of its dependencies. Dependencies are ranked at least as high as the PRs that need them.
+ * `graph` has an edge from every PR to each of its dependencies. Dependencies that aren't in `prs` don't constrain the order.
+ */
+export function order_prs(prs: PullRequest[], graph: DepGraph<unknown>, policy: OrderPolicy): PullRequest[] {
+    function compare_ranks(a: number[], b: number[]): number {
+        for (var i = 0; i < a.length; i++) {
+            if (a[i] !== b[i]) return a[i] < b[i] ? -1 : 1;
+        }
+
+        return 0;
+    }
+
+    const permalinks = new Set(_.map(prs, "permalink"));
+    const ranks = new Map(_.map(prs, (pr, index) => [pr.permalink, [..._.map(policy.keys, key => get_rank(pr, key, policy)), index]]));
+
+    // A PR's dependencies have to be merged before it, so they get its rank if theirs is worse
+    for (const pr of prs) {
+        const rank = ranks.get(pr.permalink) as number[];
+
+        for (const dep of graph.dependenciesOf(pr.permalink)) {
+            if (permalinks.has(dep) && compare_ranks(rank, ranks.get(dep) as number[]) < 0) {
+                ranks.set(dep, rank);
+            }
+        }
+    }
+
+    function compare(a: PullRequest, b: PullRequest): number {
+        return compare_ranks(ranks.get(a.permalink) as number[], ranks.get(b.permalink) as number[]);
+    }
+
+    const pending = [...prs];
+    const ordered: PullRequest[] = [];
+    const placed = new Set<string>();
+
+    // Repeatedly take the best PR whose dependencies have all been placed
+    while (pending.length > 0) {
+        const ready = _.filter(pending, pr => _.every(graph.directDependenciesOf(pr.permalink), dep => !permalinks.has(dep) || placed.has(dep)));
+
+        // Only happens with a cycle, which get_prs already removes
+        const next = ready.length > 0 ? ready.sort(compare)[0] : pending[0];
+
+        ordered.push(next);
+        placed.add(next.permalink);
+        pending.splice(pending.indexOf(next), 1);
+    }
+
+    return ordered;
+}
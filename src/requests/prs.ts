@@ -1,8 +1,13 @@
 import _ from "lodash";
-import { GQList, octokit } from "./types";
+import { get_host, QLPR } from "./host";
 import { logger } from "../env";
 import { DepGraph } from "dependency-graph";
-import { get_repo_config, get_repos, parse_repo_id, RepoId, RepoInfo } from "./repos";
+import yaml from "yaml";
+import { find_cycles } from "../mmxxl_utils";
+import { describe_expressions, get_label_policy, LabelPolicy, matching_labels } from "./labels";
+import { get_review_policy, get_review_reason } from "./reviews";
+import { get_order_policy, order_prs } from "./ordering";
+import { fetch_default_branch_config, get_repo_config, get_repos, parse_repo_id, RepoConfig, RepoId, RepoInfo, stringify_repo_id } from "./repos";
 import { mmxxl_blacklist } from "../env";
 
 /** ISO-8601 encoded date */
@@ -10,6 +15,9 @@ export type DateString = string;
 
 export type ReviewDecision = "REVIEW_REQUIRED" | "CHANGES_REQUESTED" | "APPROVED" | null;
 
+/** The combined state of a commit's checks and statuses */
+export type CheckState = "SUCCESS" | "FAILURE" | "ERROR" | "PENDING" | "EXPECTED";
+
 export type PRId = {
     repo_id: RepoInfo;
     pr: number;
@@ -18,201 +26,311 @@ export type PRId = {
 export type PullRequest = {
     labels: string[],
     baseRefName: string,
+    /** The raw Markdown of the PR body */
+    body: string,
     bodyText: string,
     headRefName: string,
+    /** The SHA of the PR's head commit, or null if it is unknown */
+    headRefOid: string | null,
     id: string,
     isDraft: boolean,
     locked: boolean,
     merged: boolean,
+    /** Whether the PR was closed, which includes merged PRs */
+    closed: boolean,
     /** PR number */
     number: number,
     /** PR browser link */
     permalink: string,
     title: string,
+    /** The login of the PR's author, or null if it is unknown */
+    author: string | null,
     updatedAt: Date,
     dependencies: PRId[],
+    /** Every dependency reference in the PR body, including the ones that could not be parsed */
+    dependency_refs: DependencyRef[],
+    /** Null if no review is required, or if it is unknown */
+    reviewDecision: ReviewDecision,
+    /** The combined state of the head commit's checks, or null if it has none or it is unknown */
+    checks: CheckState | null,
+    /** The number of changed lines, or null if it is unknown */
+    size: number | null,
 };
 
-type QLPR = {
-    labels: {
-        nodes: Array<{ name: string }>
-    },
-    baseRefName: string,
-    bodyText: string,
-    headRefName: string,
-    id: string,
-    isDraft: boolean,
-    locked: boolean,
-    merged: boolean,
-    /** PR number */
-    number: number,
-    /** PR browser link */
-    permalink: string,
-    title: string,
-    updatedAt: string,
-};
+/** The default labels that make the next tag bump the minor version. Can be overridden in the repo config. */
+export const MINOR_BUMP_LABELS = ["major change"];
 
-type RespPRs = {
-    resource: {
-        repository: {
-            pullRequests: GQList<QLPR>
-        }
-    }
+export const NEWLINE = /[\n\r]+/;
+
+/**
+ * A dependency line: `depends on:`, `Depends-On:` or `Requires:` (any case), optionally in a list item, task list item or bold.
+ * `Requires:` is also used in prose ("Requires: a world restart"), so it's only a dependency line if one of its references parses.
+ */
+const DEPENDENCY_LINE = /^\s*(?:[-*+]\s+)?(?:\[[ xX]\]\s+)?(?:\*\*|__)?(?<keyword>depends[ -]on|requires)(?:\*\*|__)?\s*:(?:\*\*|__)?(?<refs>.*)$/i;
+const MARKDOWN_LINK = /^\[(?<text>[^\]]*)\]\((?<url>[^)]*)\)$/;
+/** `#123`, `Repo#123` or `Owner/Repo#123` */
+const PR_HASH = /^(?:(?:(?<owner>[\w\-.]+)\/)?(?<repo>[\w\-.]+))?#(?<pr>\d+)$/;
+
+/** A dependency as it was written in a PR body */
+export type DependencyRef = {
+    text: string;
+    /** The PR that the reference points to, or null if it could not be parsed */
+    pr: PRId | null;
 };
 
-const get_repo_prs = `
-query($org: URI!, $repo: String!, $cursor: String) {
-    resource(url: $org) {
-        ... on Organization {
-            repository(name: $repo) {
-                pullRequests(states: [OPEN], first: 100, after: $cursor) {
-                    nodes {
-                        labels(first: 10) {
-                            nodes {
-                                name
-                            }
-                        }
-                        baseRefName
-                        bodyText
-                        headRefName
-                        id
-                        isDraft
-                        locked
-                        merged
-                        number
-                        permalink
-                        title
-                        updatedAt
-                    }
-                    pageInfo {
-                        hasNextPage
-                        endCursor
-                    }
-                }
-            }
-        }
+/** Parses one dependency reference. `#123` and `Repo#123` are resolved against the repo and owner of the PR that they're in. */
+export function parse_dependency(repo_info: RepoInfo, text: string): PRId | null {
+    var ref = text.trim();
+
+    const link = MARKDOWN_LINK.exec(ref);
+
+    if (link && link.groups) {
+        ref = link.groups["url"].trim() || link.groups["text"].trim();
     }
+
+    ref = ref.replace(/^<(.*)>$/, "$1").replace(/[.;]+$/, "").replace(/\/$/, "");
+
+    const pr_id = parse_pr(ref);
+
+    if (pr_id) return pr_id;
+
+    const hash = PR_HASH.exec(ref);
+
+    if (!hash || !hash.groups) return null;
+
+    return {
+        repo_id: {
+            owner: hash.groups["owner"] || repo_info.owner,
+            repo: hash.groups["repo"] || repo_info.repo,
+        },
+        pr: parseInt(hash.groups["pr"]),
+    };
 }
-`;
-
-const latest_merged_prs = `
-query ($org: URI!, $repo: String!) {
-    resource(url: $org) {
-        ... on Organization {
-            repository(name: $repo) {
-                pullRequests(states: [MERGED], last: 100, orderBy: { field: UPDATED_AT, direction: ASC }) {
-                    nodes {
-                        labels(first: 10) {
-                            nodes {
-                                name
-                            }
-                        }
-                        baseRefName
-                        bodyText
-                        headRefName
-                        id
-                        isDraft
-                        locked
-                        merged
-                        number
-                        permalink
-                        title
-                        updatedAt
-                    }
-                    pageInfo {
-                        hasNextPage
-                        endCursor
-                    }
-                }
-            }
+
+/** Finds every dependency reference in a PR body. A dependency line can list several references, separated by commas. */
+export function parse_dependencies(repo_info: RepoInfo, body: string): DependencyRef[] {
+    const refs: DependencyRef[] = [];
+
+    for (const line of body.split(NEWLINE)) {
+        const match = DEPENDENCY_LINE.exec(line);
+
+        if (!match || !match.groups) continue;
+
+        const line_refs: DependencyRef[] = [];
+
+        for (const text of match.groups["refs"].split(",")) {
+            if (text.trim().length == 0) continue;
+
+            line_refs.push({ text: text.trim(), pr: parse_dependency(repo_info, text) });
         }
-    }
-}
-`;
 
-const BLOCKER_LABELS = ["affects balance", "not ready for testing"];
-const REQUIRED_LABELS = ["testing on zeta", ":construction: testing on zeta"];
+        if (match.groups["keyword"].toLowerCase() === "requires" && !_.some(line_refs, ref => ref.pr)) continue;
 
-/** PR cannot be reverted and the experimental must be cancelled if the PR could not be included after it was previously included */
-export const NOT_REVERTABLE = "not revertable";
+        refs.push(...line_refs);
+    }
 
-export const NEWLINE = /[\n\r]+/;
-const PR_HASH = /^(?<owner>\w+)?#(?<pr>\d+)$/;
+    return refs;
+}
+
+/** A PR that was left out of the release, and why */
+export type ExcludedPR = {
+    pr: string;
+    reason: string;
+};
 
 export type PRInfo = {
     prs: PullRequest[];
     dependencies: PRId[];
+    /** PRs that were ready for testing, but were left out because their dependencies can't be satisfied */
+    excluded: ExcludedPR[];
 }
 
 function load_pr(repo_info: RepoInfo, ql: QLPR): PullRequest | null {
     const out: PullRequest = {
         labels: ql.labels.nodes.map(n => n.name.toLowerCase()),
         baseRefName: ql.baseRefName,
+        body: ql.body,
         bodyText: ql.bodyText,
         headRefName: ql.headRefName,
+        headRefOid: ql.headRefOid || null,
         id: ql.id,
         isDraft: ql.isDraft,
         locked: ql.locked,
         number: ql.number,
         merged: ql.merged,
+        closed: Boolean(ql.closed),
         permalink: ql.permalink,
         title: ql.title,
+        author: ql.author?.login || null,
         updatedAt: new Date(ql.updatedAt),
         dependencies: [],
+        dependency_refs: [],
+        reviewDecision: ql.reviewDecision || null,
+        checks: _.last(ql.commits?.nodes)?.commit.statusCheckRollup?.state || null,
+        size: typeof(ql.additions) === "number" ? ql.additions + (ql.deletions || 0) : null,
     };
 
-    const lines = out.bodyText.split(NEWLINE);
+    // bodyText drops link URLs and task list markers, so dependencies are parsed from the Markdown
+    out.dependency_refs = parse_dependencies(repo_info, out.body);
 
-    for (const line of lines) {
-        if (!line.startsWith("depends on:")) continue;
+    if (out.dependency_refs.length > 0) {
+        logger.info(yaml.stringify({
+            [`Dependencies of ${out.permalink}`]: _.map(out.dependency_refs, ref => ref.pr ? `${ref.text} -> ${stringify_pr(ref.pr)}` : `${ref.text} -> (invalid)`),
+        }));
+    }
 
-        var dep = line.replace("depends on:", "").trim();
+    const invalid_reason = get_invalid_dependency_reason(out);
 
-        const hash = PR_HASH.exec(dep);
+    if (invalid_reason) {
+        logger.error(`PR ${out.permalink} ${invalid_reason}`);
+    }
 
-        if (hash && hash.groups) {
-            dep = stringify_pr({
-                repo_id: {
-                    owner: hash.groups["owner"] || repo_info.owner,
-                    repo: repo_info.repo,
-                },
-                pr: parseInt(hash.groups["pr"])
-            });
-        }
+    out.dependencies = _(out.dependency_refs).map("pr").filter(Boolean).map(pr => pr as PRId).uniqBy(stringify_pr).value();
+
+    return out;
+}
+
+/** Why a PR can't be tested because of dependency references that could not be parsed, or null if they all parsed */
+export function get_invalid_dependency_reason(pr: PullRequest): string | null {
+    const invalid = _.filter(pr.dependency_refs, ref => ref.pr === null);
+
+    if (invalid.length === 0) return null;
+
+    return `has invalid dependency reference(s) ${_.map(invalid, ref => `'${ref.text}'`).join(", ")}`;
+}
 
-        const pr_id = parse_pr(dep);
+/** Why a PR can't be tested under a label policy, or null if it can. The PR's base branch is only checked if `default_branch` is given. */
+export function get_untestable_reason(pr: PullRequest, default_branch: string | null, policy: LabelPolicy = get_label_policy(null)): string | null {
+    if (default_branch && pr.baseRefName !== default_branch) return `targets ${pr.baseRefName} instead of ${default_branch}`;
+    if (pr.isDraft) return "is a draft";
+    if (pr.locked) return "is locked";
 
-        if (!pr_id) {
-            logger.error(`PR ${out.permalink} depends on invalid PR '${dep}': it will be removed from this release`);
-            return null;
+    const blockers = matching_labels(pr.labels, policy.blockers);
+
+    if (blockers.length > 0) return `has the '${blockers[0]}' label`;
+    if (matching_labels(pr.labels, policy.required).length == 0) return `does not have a label matching ${describe_expressions(policy.required)}`;
+
+    return null;
+}
+
+/** Finds the PRs that depend on each other in a cycle, and why each of them can't be merged */
+function find_pr_cycles(prs: PullRequest[]): {[permalink: string]: string} {
+    const graph = new DepGraph();
+
+    for (const pr of prs) {
+        graph.addNode(pr.permalink);
+    }
+
+    for (const pr of prs) {
+        for (const dep of pr.dependencies) {
+            if (graph.hasNode(stringify_pr(dep))) {
+                graph.addDependency(pr.permalink, stringify_pr(dep));
+            }
         }
+    }
+
+    const reasons: {[permalink: string]: string} = {};
 
-        out.dependencies.push(pr_id);
+    for (const cycle of find_cycles(graph, _.map(prs, "permalink"))) {
+        const path = cycle.join(" -> ");
+
+        logger.error(`PRs depend on each other in a cycle: ${path}. They will be removed from this release`);
+
+        for (const permalink of _.uniq(cycle)) {
+            reasons[permalink] = `is part of the dependency cycle ${path}`;
+        }
     }
 
-    return out;
+    return reasons;
 }
 
-export async function get_prs(repo_id: RepoId, default_branch: string): Promise<PRInfo> {
-    const repo_info = parse_repo_id(repo_id);
-    const { owner, repo } = repo_info;
+/**
+ * Leaves out every PR whose dependency chain can't be satisfied. A dependency is satisfied if it was merged, or if it is one of the PRs that are being tested.
+ * Dependencies in other repos are satisfied if they are ready for testing in their own repo.
+ * `excluded` are PRs that were already left out for other reasons, with the reasons why.
+ */
+async function prune_unsatisfiable(repo_info: RepoInfo, default_branch: string, config: RepoConfig | null, prs: PullRequest[], open: PullRequest[], excluded: {[permalink: string]: string} = {}): Promise<{ prs: PullRequest[], excluded: ExcludedPR[] }> {
+    const included = new Set(_.filter(_.map(prs, "permalink"), permalink => !excluded[permalink]));
+
+    const outside_reasons: {[permalink: string]: string | null} = {};
+
+    async function check_dependency(dep: PRId): Promise<string | null> {
+        const permalink = stringify_pr(dep);
 
-    const resp: RespPRs = await octokit.graphql(get_repo_prs, { org: `https://github.com/${owner}`, repo, cursor: null });
+        if (excluded[permalink]) return "was excluded too";
+        if (included.has(permalink)) return null;
+        if (permalink in outside_reasons) return outside_reasons[permalink];
 
-    const allPRs = [...resp.resource.repository.pullRequests.nodes];
+        const same_repo = stringify_repo_id(dep.repo_id).toLowerCase() === stringify_repo_id(repo_info).toLowerCase();
 
-    var pageInfo = resp.resource.repository.pullRequests.pageInfo;
+        const pr = _.find(open, { permalink }) || await get_pr(dep);
 
-    while (pageInfo.hasNextPage) {
-        const resp2: RespPRs = await octokit.graphql(get_repo_prs, { owner, repo, cursor: pageInfo.endCursor });
-        pageInfo = resp2.resource.repository.pullRequests.pageInfo;
+        var reason: string | null;
 
-        for (const pr of resp2.resource.repository.pullRequests.nodes) {
-            allPRs.push(pr);
+        if (!pr) {
+            reason = "does not exist or could not be loaded";
+        } else if (pr.merged) {
+            reason = null;
+        } else if (pr.closed) {
+            reason = "was closed without being merged";
+        } else if (get_invalid_dependency_reason(pr)) {
+            reason = get_invalid_dependency_reason(pr);
+        } else {
+            // Other repos can label and review their PRs differently, and they usually aren't cloned
+            const dep_config = same_repo ? config : await fetch_default_branch_config(stringify_repo_id(dep.repo_id));
+
+            reason = get_untestable_reason(pr, same_repo ? default_branch : null, get_label_policy(dep_config)) || get_review_reason(pr, get_review_policy(dep_config));
         }
+
+        outside_reasons[permalink] = reason;
+
+        return reason;
     }
 
-    const config = await get_repo_config(repo_id);
+    // Excluding a PR can break the chains of the PRs that depend on it, so keep going until nothing changes
+    var changed = true;
+
+    while (changed) {
+        changed = false;
+
+        for (const pr of prs) {
+            if (excluded[pr.permalink]) continue;
+
+            for (const dep of pr.dependencies) {
+                const reason = await check_dependency(dep);
+
+                if (reason) {
+                    excluded[pr.permalink] = `depends on ${stringify_pr(dep)}, which ${reason}`;
+                    included.delete(pr.permalink);
+                    changed = true;
+                    break;
+                }
+            }
+        }
+    }
+
+    if (!_.isEmpty(excluded)) {
+        logger.warn(yaml.stringify({
+            "PRs excluded because of their dependencies": excluded,
+        }));
+    }
+
+    return {
+        prs: _.filter(prs, pr => !excluded[pr.permalink]),
+        excluded: _.map(excluded, (reason, pr) => ({ pr, reason })),
+    };
+}
+
+/** The PRs that are ready for testing, in merge order. `config` defaults to the config in the repo's clone. */
+export async function get_prs(repo_id: RepoId, default_branch: string, config?: RepoConfig | null): Promise<PRInfo> {
+    const repo_info = parse_repo_id(repo_id);
+    const { owner, repo } = repo_info;
+
+    const allPRs = await get_host().get_open_prs(repo_info);
+
+    if (config === undefined) {
+        config = await get_repo_config(repo_id);
+    }
 
     const third_party: PullRequest[] = [];
 
@@ -226,16 +344,39 @@ export async function get_prs(repo_id: RepoId, default_branch: string): Promise<
         }
     }
 
-    const validPRs = _(allPRs)
-        .filter({ baseRefName: default_branch, isDraft: false, locked: false })
+    const openPRs = _(allPRs)
         .map(pr => load_pr(repo_info, pr))
         .filter(Boolean)
         .map(pr => pr as PullRequest)
-        .filter(pr => _.intersection(pr.labels, BLOCKER_LABELS).length == 0)
-        .filter(pr => _.intersection(pr.labels, REQUIRED_LABELS).length > 0)
+        .value();
+
+    const readyPRs = _(openPRs)
+        .filter(pr => get_untestable_reason(pr, default_branch, get_label_policy(config)) === null)
         .concat(third_party)
         .value();
 
+    const review_policy = get_review_policy(config);
+    const review_reasons: {[permalink: string]: string} = {};
+    const invalid_reasons: {[permalink: string]: string} = {};
+
+    for (const pr of readyPRs) {
+        const reason = get_review_reason(pr, review_policy);
+
+        if (reason) review_reasons[pr.permalink] = reason;
+
+        const invalid_reason = get_invalid_dependency_reason(pr);
+
+        if (invalid_reason) invalid_reasons[pr.permalink] = invalid_reason;
+    }
+
+    if (!_.isEmpty(review_reasons)) {
+        logger.warn(yaml.stringify({
+            "PRs excluded because of their reviews or checks": review_reasons,
+        }));
+    }
+
+    const { prs: validPRs, excluded } = await prune_unsatisfiable(repo_info, default_branch, config, readyPRs, openPRs, { ...review_reasons, ...invalid_reasons, ...find_pr_cycles(readyPRs) });
+
     const graph = new DepGraph();
 
     for (const pr of validPRs) {
@@ -260,13 +401,12 @@ export async function get_prs(repo_id: RepoId, default_branch: string): Promise<
         }
     }
 
-    const order = graph.overallOrder();
-
-    const sortedPRs = _.sortBy(validPRs, pr => order.indexOf(pr.permalink));
+    const sortedPRs = order_prs(validPRs, graph, get_order_policy(config));
 
     return {
         prs: sortedPRs,
-        dependencies: crossRepoDeps
+        dependencies: crossRepoDeps,
+        excluded,
     };
 }
 
@@ -274,20 +414,7 @@ export async function get_merged_prs(repo_id: RepoId, default_branch: string, wh
     const repo_info = parse_repo_id(repo_id);
     const { owner, repo } = repo_info;
 
-    const resp: RespPRs = await octokit.graphql(latest_merged_prs, { org: `https://github.com/${owner}`, repo, cursor: null });
-
-    const allPRs = [...resp.resource.repository.pullRequests.nodes];
-
-    var pageInfo = resp.resource.repository.pullRequests.pageInfo;
-
-    while (pageInfo.hasNextPage && allPRs.length < count) {
-        const resp2: RespPRs = await octokit.graphql(latest_merged_prs, { org: `https://github.com/${owner}`, repo, cursor: pageInfo.endCursor });
-        pageInfo = resp2.resource.repository.pullRequests.pageInfo;
-
-        for (const pr of resp2.resource.repository.pullRequests.nodes) {
-            allPRs.push(pr);
-        }
-    }
+    const allPRs = await get_host().get_merged_prs(repo_info, count);
 
     const validPRs = _(allPRs)
         .filter({ baseRefName: default_branch, isDraft: false, locked: false })
@@ -297,7 +424,8 @@ export async function get_merged_prs(repo_id: RepoId, default_branch: string, wh
         .filter(pr => whitelist.has(pr.number))
         .value();
 
-    const graph = new DepGraph();
+    // Merged PRs can't be left out, so a cycle between them only makes their order arbitrary
+    const graph = new DepGraph({ circular: true });
 
     for (const pr of validPRs) {
         graph.addNode(pr.permalink);
@@ -321,13 +449,18 @@ export async function get_merged_prs(repo_id: RepoId, default_branch: string, wh
         }
     }
 
+    for (const cycle of find_cycles(graph, _.map(validPRs, "permalink"))) {
+        logger.warn(`Merged PRs depend on each other in a cycle: ${cycle.join(" -> ")}`);
+    }
+
     const order = graph.overallOrder();
 
     validPRs.sort(pr => order.indexOf(pr.permalink));
 
     return {
         prs: validPRs,
-        dependencies: crossRepoDeps
+        dependencies: crossRepoDeps,
+        excluded: [],
     };
 }
 
@@ -356,27 +489,20 @@ export function stringify_pr(pr: PRId) {
     return `https://github.com/${pr.repo_id.owner}/${pr.repo_id.repo}/pull/${pr.pr}`;
 }
 
+/** `#123` for PRs in `repo_info`, `Repo#123` for other GTNewHorizons repos and `Owner/Repo#123` for everything else */
+export function short_pr(permalink: string, repo_info: RepoInfo | null = null): string {
+    const pr_id = parse_pr(permalink);
+
+    if (!pr_id) return permalink;
+
+    if (repo_info && stringify_repo_id(pr_id.repo_id).toLowerCase() === stringify_repo_id(repo_info).toLowerCase()) return `#${pr_id.pr}`;
+
+    return `${pr_id.repo_id.owner === "GTNewHorizons" ? pr_id.repo_id.repo : stringify_repo_id(pr_id.repo_id)}#${pr_id.pr}`;
+}
+
 export async function get_pr(pr_id: PRId) {
     try {
-        const resp = await octokit.request("GET /repos/{owner}/{repo}/pulls/{pull_number}", {
-            owner: pr_id.repo_id.owner,
-            repo: pr_id.repo_id.repo,
-            pull_number: pr_id.pr
-        });
-
-        return load_pr(pr_id.repo_id, {
-            ...resp.data,
-            id: ""+resp.data.id,
-            labels: {
-                nodes: _.map(resp.data.labels, l => ({ name: l.name }))
-            },
-            baseRefName: resp.data.base.ref,
-            bodyText: resp.data.body || "",
-            headRefName: resp.data.head.ref,
-            isDraft: resp.data.draft || false,
-            permalink: stringify_pr(pr_id),
-            updatedAt: resp.data.updated_at
-        });
+        return load_pr(pr_id.repo_id, await get_host().get_pr(pr_id));
     } catch (e) {
         logger.error(`Could not find PR ${stringify_pr(pr_id)}: ${e}`);
         return null;
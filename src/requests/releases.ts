@@ -0,0 +1,27 @@
+import { get_host } from "./host";
+import { logger } from "../env";
+import { parse_repo_id, RepoId } from "./repos";
+
+/**
+ * Creates the release of a tag, or replaces the contents of its existing release so that re-running a tag doesn't duplicate it.
+ * Returns the release's browser link, or null if it could not be created.
+ */
+export async function upsert_release(repo_id: RepoId, tag_name: string, prerelease: boolean, body: string): Promise<string | null> {
+    const repo_info = parse_repo_id(repo_id);
+    const content = { tag_name, name: tag_name, body, prerelease };
+
+    try {
+        const existing = await get_host().get_release(repo_info, tag_name);
+
+        const release = existing ?
+            await get_host().update_release(repo_info, existing.id, content) :
+            await get_host().create_release(repo_info, content);
+
+        logger.info(`${existing ? "Updated" : "Created"} the release of ${repo_id} ${tag_name}: ${release.url}`);
+
+        return release.url;
+    } catch (e) {
+        logger.error(`Could not create the release of ${repo_id} ${tag_name}: ${e}`);
+        return null;
+    }
+}
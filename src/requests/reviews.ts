@@ -0,0 +1,33 @@
+import { exclude_changes_requested, require_approval, require_green_checks } from "../env";
+import { PullRequest } from "./prs";
+import { RepoConfig } from "./repos";
+
+/** Which review decisions and check states keep a PR that is otherwise ready for testing out of the experimental */
+export type ReviewPolicy = {
+    exclude_changes_requested: boolean;
+    /** Only affects repos whose branch protection requires reviews: GitHub doesn't report a review decision for the others */
+    require_approval: boolean;
+    /** Pending checks don't count as green. PRs without any checks are not affected. */
+    require_green_checks: boolean;
+};
+
+/** The review policy for a repo: the global one, unless the repo config overrides it */
+export function get_review_policy(config: RepoConfig | null): ReviewPolicy {
+    return {
+        exclude_changes_requested: config ? config.excludeChangesRequested : exclude_changes_requested,
+        require_approval: config ? config.requireApproval : require_approval,
+        require_green_checks: config ? config.requireGreenChecks : require_green_checks,
+    };
+}
+
+/** Why the review policy keeps a PR out, or null if it doesn't */
+export function get_review_reason(pr: PullRequest, policy: ReviewPolicy): string | null {
+    if (policy.exclude_changes_requested && pr.reviewDecision === "CHANGES_REQUESTED") return "has changes requested";
+    if (policy.require_approval && pr.reviewDecision !== "APPROVED" && pr.reviewDecision !== null) return "has not been approved";
+
+    if (policy.require_green_checks && pr.checks !== null && pr.checks !== "SUCCESS") {
+        return pr.checks === "PENDING" || pr.checks === "EXPECTED" ? "has checks that are still running" : "has failing checks";
+    }
+
+    return null;
+}
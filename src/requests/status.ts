@@ -0,0 +1,146 @@
+import fs from "fs";
+import path from "path";
+import yaml from "yaml";
+import { dryrun, get_scratchpad, logger } from "../env";
+import { DevBranchStatus, get_branch_commits, get_dev_branch_status } from "./branches";
+import { get_host } from "./host";
+import { exec, force_push, get_commits, get_ref_sha, get_repo_path, parse_repo_id, RepoId } from "./repos";
+
+/**
+ * The dev branch status is stored in its own ref (`refs/mmxxl/status/<branch>`), so that it doesn't add commits to the branch.
+ * The ref points at a commit whose tree has a single `status.yaml` file, in the StoredStatus format.
+ */
+export const STATUS_VERSION = 1;
+
+const STATUS_FILE = "status.yaml";
+
+export type StoredStatus = {
+    /** Bumped whenever the format changes in a way that older versions can't read */
+    version: number;
+    branch: string;
+    /** The commit of the branch that the status describes */
+    head: string;
+    status: DevBranchStatus;
+};
+
+export function get_status_ref(branch: string) {
+    return `refs/mmxxl/status/${branch}`;
+}
+
+/** Parses a stored status, or returns null if it is invalid or too new to be read */
+export function parse_stored_status(text: string): StoredStatus | null {
+    try {
+        const stored = yaml.parse(text);
+
+        if (!stored || typeof(stored.version) !== "number" || !stored.status) {
+            logger.error(`Invalid dev branch status: ${text}`);
+            return null;
+        }
+
+        if (stored.version > STATUS_VERSION) {
+            logger.error(`Dev branch status has version ${stored.version}, but only version ${STATUS_VERSION} and older can be read: ignoring it`);
+            return null;
+        }
+
+        return stored;
+    } catch (e) {
+        logger.error(`Could not parse dev branch status: ${e}`);
+        return null;
+    }
+}
+
+/** Stores the status of the branch's current local head in the remote */
+export async function write_dev_status(repo_id: RepoId, branch: string, status: DevBranchStatus) {
+    const repo_path = get_repo_path(repo_id);
+
+    const stored: StoredStatus = {
+        version: STATUS_VERSION,
+        branch,
+        head: await get_ref_sha(repo_id, branch),
+        status,
+    };
+
+    const file = path.join(get_scratchpad(), `${path.basename(repo_path)}-${STATUS_FILE}`);
+
+    fs.writeFileSync(file, yaml.stringify(stored));
+
+    try {
+        const blob = (await exec(`git hash-object -w '${file}'`, { cwd: repo_path })).stdout.trim();
+        const tree = (await exec(`printf '100644 blob %s\\t%s\\n' ${blob} ${STATUS_FILE} | git mktree`, { cwd: repo_path })).stdout.trim();
+        const commit = (await exec(`git commit-tree ${tree} -m 'Dev Branch Status for ${branch} at ${stored.head}'`, { cwd: repo_path })).stdout.trim();
+
+        logger.info(`Storing the status of ${branch} in ${get_status_ref(branch)}`);
+
+        if (!dryrun) await force_push(repo_id, `${commit}:${get_status_ref(branch)}`);
+    } finally {
+        fs.rmSync(file, { force: true });
+    }
+}
+
+/** Reads the status stored for a branch in its own ref, if it still describes the branch */
+async function read_stored_status(repo_id: RepoId, branch: string): Promise<DevBranchStatus | null> {
+    const repo_path = get_repo_path(repo_id);
+    const ref = get_status_ref(branch);
+
+    try {
+        await exec(`git fetch origin '+${ref}:${ref}'`, { cwd: repo_path });
+    } catch (e) {
+        logger.debug(`${repo_id} does not have a status for ${branch}: ${e}`);
+        return null;
+    }
+
+    var stored: StoredStatus | null;
+
+    try {
+        stored = parse_stored_status((await exec(`git show '${ref}:${STATUS_FILE}'`, { cwd: repo_path })).stdout);
+    } catch (e) {
+        logger.error(`Could not read ${ref} of ${repo_id}: ${e}`);
+        return null;
+    }
+
+    if (!stored) return null;
+
+    // Commits can be added on top of the branch after its status was stored, but the status is stale if the branch was rebuilt without it
+    try {
+        await exec(`git merge-base --is-ancestor ${stored.head} 'origin/${branch}'`, { cwd: repo_path });
+    } catch (e) {
+        logger.warn(`The status in ${ref} is for ${stored.head}, which is no longer in ${branch}: ignoring it`);
+        return null;
+    }
+
+    return stored.status;
+}
+
+/** Like read_dev_status, but through the host's API instead of a clone */
+export async function fetch_dev_status(repo_id: RepoId, branch: string): Promise<DevBranchStatus | null> {
+    const repo_info = parse_repo_id(repo_id);
+    const ref_sha = await get_host().get_ref(repo_info, get_status_ref(branch));
+    const text = ref_sha && await get_host().get_file(repo_info, ref_sha, STATUS_FILE);
+    const stored = text ? parse_stored_status(text) : null;
+
+    if (stored) {
+        try {
+            const { behind_by } = await get_host().compare_commits(repo_info, stored.head, branch);
+
+            if (behind_by === 0) return stored.status;
+        } catch (e) {
+            logger.debug(`Could not compare ${stored.head} with ${branch}: ${e}`);
+        }
+
+        logger.warn(`The status in ${get_status_ref(branch)} is for ${stored.head}, which is no longer in ${branch}: ignoring it`);
+    }
+
+    return get_dev_branch_status(await get_branch_commits(repo_id, branch));
+}
+
+/**
+ * The status of a dev branch in a cloned repo, or null if it has none.
+ * Falls back to the legacy "Dev Branch Status" commit in the branch for branches that were built by older versions.
+ */
+export async function read_dev_status(repo_id: RepoId, branch: string): Promise<DevBranchStatus | null> {
+    const status = await read_stored_status(repo_id, branch);
+
+    if (status) return status;
+
+    return get_dev_branch_status(await get_commits(repo_id, `'origin/${branch}' -n 10`));
+}
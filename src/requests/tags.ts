@@ -1,10 +1,9 @@
 import _ from "lodash";
-import { exec, get_repo_path, parse_repo_id, RepoId } from "./repos";
-import { octokit } from "./types";
+import { exec, get_repo_path, RepoId } from "./repos";
+import { DEFAULT_WATCH_OPTIONS, find_tag_workflow, WatchOptions, WorkflowId } from "./workflows";
 import { logger } from "../env";
 import path from "path";
 import fs from "fs";
-import { wait } from "../mmxxl_utils";
 import { sprintf } from "sprintf-js";
 import { NEWLINE } from "./prs";
 
@@ -89,144 +88,224 @@ export async function get_latest_tag(repo_id: RepoId, branch: string = "HEAD"):
     return parse_tag(result.stdout.trim());
 }
 
-export async function get_latest_tags(repo_id: RepoId): Promise<ParsedTag[]> {
-    try {
-        const result = await exec(`git tag -l --sort=creatordate | tail -n 5`, { cwd: get_repo_path(repo_id) });
-    
-        const lines = _.filter(result.stdout.trim().split(NEWLINE), Boolean);
+/** A tag parsed as a (loose) semantic version: any number of numeric components, an optional prefix (`v`), prerelease and build metadata */
+export type Version = {
+    tag: string;
+    prefix: string;
+    core: number[];
+    /** The dot-separated prerelease identifiers: `-pre` is `["pre"]`, `-rc.2` is `["rc", 2]` */
+    prerelease: Array<string | number>;
+    build: string[];
+};
+
+const VERSION = /^(?<prefix>[^\d]*)(?<core>\d+(?:\.\d+)*)(?:-(?<prerelease>[0-9A-Za-z.-]+))?(?:\+(?<build>[0-9A-Za-z.-]+))?$/;
+
+/** Parses a tag as a version, or returns null if the tag isn't one */
+export function parse_version(tag: string): Version | null {
+    const match = VERSION.exec(tag);
 
-        return _.map(lines, parse_tag);
+    if (!match || !match.groups) return null;
+
+    const { prefix, core, prerelease, build } = match.groups;
+
+    return {
+        tag,
+        prefix: prefix || "",
+        core: _.map(core.split("."), x => parseInt(x)),
+        prerelease: prerelease ? _.map(prerelease.split("."), x => /^\d+$/.test(x) ? parseInt(x) : x) : [],
+        build: build ? build.split(".") : [],
+    };
+}
+
+export function is_prerelease(version: Version): boolean {
+    return version.prerelease.length > 0;
+}
+
+function compare_identifiers(a: string | number, b: string | number): number {
+    if (typeof(a) === "number" && typeof(b) === "number") return a - b;
+
+    // Numeric identifiers always have lower precedence than alphanumeric ones
+    if (typeof(a) === "number") return -1;
+    if (typeof(b) === "number") return 1;
+
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/** Compares the numeric components of two versions. Missing components count as 0. */
+function compare_cores(a: number[], b: number[]): number {
+    for (var i = 0; i < Math.max(a.length, b.length); i++) {
+        const diff = (a[i] || 0) - (b[i] || 0);
+
+        if (diff != 0) return diff < 0 ? -1 : 1;
+    }
+
+    return 0;
+}
+
+/** Compares versions by semver precedence. Missing core components count as 0, and build metadata is ignored. */
+export function compare_versions(a: Version, b: Version): number {
+    const core = compare_cores(a.core, b.core);
+
+    if (core != 0) return core;
+
+    // A prerelease has lower precedence than the release with the same core
+    if (is_prerelease(a) != is_prerelease(b)) {
+        return is_prerelease(a) ? -1 : 1;
+    }
+
+    for (var i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+        if (a.prerelease[i] === undefined) return -1;
+        if (b.prerelease[i] === undefined) return 1;
+
+        const diff = compare_identifiers(a.prerelease[i], b.prerelease[i]);
+
+        if (diff != 0) return diff < 0 ? -1 : 1;
+    }
+
+    return 0;
+}
+
+export type LatestVersions = {
+    release: Version | null;
+    prerelease: Version | null;
+};
+
+/** Finds the highest release and prerelease out of every tag in the repo. Tags that aren't versions are ignored. */
+export async function get_latest_versions(repo_id: RepoId): Promise<LatestVersions> {
+    try {
+        const result = await exec(`git tag -l`, { cwd: get_repo_path(repo_id) });
+
+        const versions = _(result.stdout.trim().split(NEWLINE))
+            .map(parse_version)
+            .filter(Boolean)
+            .map(v => v as Version)
+            .value()
+            .sort(compare_versions);
+
+        return {
+            release: _.findLast(versions, v => !is_prerelease(v)) || null,
+            prerelease: _.findLast(versions, is_prerelease) || null,
+        };
     } catch (e) {
-        logger.info(`Could not get latest 5 tags for ${repo_id}: ${e}`);
-        return [];
+        logger.info(`Could not get tags for ${repo_id}: ${e}`);
+        return { release: null, prerelease: null };
     }
 }
 
-export async function create_tag(repo_id: RepoId, tag_name: string, base: string = "HEAD") {
-    await exec(`git tag -f ${tag_name} ${base}`, { cwd: get_repo_path(repo_id) });
+/** Whether the version follows the `-pre` convention (or has no prerelease at all), so that it can be rebuilt from its core */
+function is_conventional(version: Version): boolean {
+    return version.prerelease.length == 0 || (version.prerelease.length == 1 && `-${version.prerelease[0]}` == PRE);
 }
 
-export type WorkflowId = number;
+/**
+ * How the next tag is picked:
+ * - patch: increments the last component (`2.7.3` -> `2.7.4` / `2.7.4-pre`)
+ * - minor: increments the minor component (`2.7.3` -> `2.8.0` / `2.8.0-pre`)
+ * - counted: numbers the prereleases of the next version (`2.7.4-pre.1`, `2.7.4-pre.2`, ... then `2.7.4`)
+ * - date: stamps the prereleases of the next version with the build date (`2.7.4-pre.20240131.1`, ... then `2.7.4`)
+ */
+export type BumpStrategy = "patch" | "minor" | "counted" | "date";
+
+export const BUMP_STRATEGIES: BumpStrategy[] = ["patch", "minor", "counted", "date"];
+
+export type BumpOptions = {
+    strategy: BumpStrategy;
+    /** Increments the minor component instead of the last one, for when a PR is labelled as a major change */
+    minor?: boolean;
+    /** The build date for the date strategy. Defaults to now. */
+    now?: Date;
+};
 
-export async function push_tag(repo_id: RepoId, tag_name: string, base: string = "HEAD"): Promise<WorkflowId | null> {
-    const { owner, repo } = parse_repo_id(repo_id);
+function bump_core(core: number[], minor: boolean): number[] {
+    const i = minor ? Math.min(1, core.length - 1) : core.length - 1;
 
-    await exec(`git push origin tag ${tag_name}`, { cwd: get_repo_path(repo_id) });
+    return _.map(core, (x, j) => j < i ? x : j == i ? x + 1 : 0);
+}
 
-    if (fs.existsSync(path.join(get_repo_path(repo_id), ".github", "workflows", "release-tags.yml"))) {
-        const sha = (await exec(`git rev-parse ${base}`, { cwd: get_repo_path(repo_id) })).stdout.trim();
+function date_stamp(date: Date): number {
+    return date.getUTCFullYear() * 10000 + (date.getUTCMonth() + 1) * 100 + date.getUTCDate();
+}
 
-        await wait(1000);
+/** The prerelease identifiers that come after `-pre.` in a prerelease of the given core, or null if the version isn't one */
+function pre_identifiers(version: Version | null, core: number[]): Array<string | number> | null {
+    if (!version || compare_cores(version.core, core) != 0) return null;
+    if (`-${version.prerelease[0]}` != PRE) return null;
 
-        var tries: number = 0;
+    return version.prerelease.slice(1);
+}
 
-        while (true) {
-            tries++;
+/** Picks the next tag for the counted and date strategies, which release the version that their prereleases were numbering */
+function next_numbered_tag(latest: LatestVersions, pre: boolean, options: BumpOptions): string {
+    const { release, prerelease } = latest;
 
-            if (tries > 3) {
-                logger.error(`Could not find action run for commit ${sha} after 3 retries: assuming it was cancelled`);
-                return null;
-            }
+    var core = bump_core(release ? release.core : [0, 0, 0], Boolean(options.minor));
 
-            const resp = (await octokit.request("GET /repos/{owner}/{repo}/actions/runs", {
-                owner,
-                repo,
-                event: "push",
-                head_sha: sha,
-                per_page: 1
-            })).data;
+    // Keep numbering the pending prereleases, unless they're for an older version than the one that's needed now
+    const pending = prerelease && (!release || compare_versions(prerelease, release) > 0) && compare_cores(prerelease.core, core) >= 0 ? prerelease : null;
 
-            const workflow_run = _.find(resp.workflow_runs, { head_branch: tag_name });
+    if (pending) core = pending.core;
 
-            if (!workflow_run) {
-                logger.info(`Could not find action run for ${sha}: waiting 10 seconds`);
-                
-                await wait(10000);
+    const version = `${(release || pending)?.prefix || ""}${core.join(".")}`;
 
-                continue;
-            } else {
-                logger.info(`Found active action for ${sha}: https://github.com/${owner}/${repo}/actions/runs/${workflow_run.id}`);
+    if (!pre) return version;
 
-                return workflow_run.id;
-            }
-        }
+    const previous = pre_identifiers(pending, core);
+
+    if (options.strategy === "date") {
+        const stamp = date_stamp(options.now || new Date());
+
+        const build = previous && previous[0] === stamp && typeof(previous[1]) === "number" ? previous[1] + 1 : 1;
+
+        return `${version}${PRE}.${stamp}.${build}`;
     } else {
-        return null;
+        const count = previous && typeof(previous[0]) === "number" ? previous[0] + 1 : 1;
+
+        return `${version}${PRE}.${count}`;
     }
 }
 
-export type WorkflowStatus = "unknown" | "in-progress" | "failed" | "completed";
-
-export async function get_action_state(repo_id: RepoId, workflow_id: WorkflowId): Promise<WorkflowStatus | null> {
-    const { owner, repo } = parse_repo_id(repo_id);
-
-    const workflow = (await octokit.request("GET /repos/{owner}/{repo}/actions/runs/{run_id}", {
-        owner,
-        repo,
-        run_id: workflow_id
-    })).data;
-
-    if (!workflow) return null;
-
-    const lookup = {
-        "completed" : "completed",
-        "action_required" : "unknown",
-        "cancelled" : "failed",
-        "failure" : "failed",
-        "neutral": "failed",
-        "skipped": "failed",
-        "stale": "failed",
-        "success" : "completed",
-        "timed_out" : "failed",
-        "in_progress" : "in-progess",
-        "queued" : "in-progess",
-        "requested" : "in-progess",
-        "waiting" : "in-progess",
-        "pending" : "in-progess",
-    };
+/** Picks the next tag from the highest of the latest release and prerelease, according to the bump strategy */
+export function next_tag(latest: LatestVersions, pre: boolean, options: BumpOptions = { strategy: "patch" }): string {
+    if (options.strategy === "counted" || options.strategy === "date") {
+        return next_numbered_tag(latest, pre, options);
+    }
 
-    return workflow.status && lookup[workflow.status] || "unknown";
-}
+    const candidates = _.filter([latest.release, latest.prerelease], Boolean) as Version[];
 
-export async function wait_for_action(repo_id: RepoId, ref: string, workflow_id: WorkflowId) {
-    const { owner, repo } = parse_repo_id(repo_id);
+    const base = _.last(candidates.sort(compare_versions));
 
-    const action = await get_action_state(repo_id, workflow_id);
+    if (!base) {
+        logger.warn(`Could not find any version tags: starting from 0.0.0`);
+        return next_tag({ release: parse_version("0.0.0"), prerelease: null }, pre, options);
+    }
 
-    if (action == "completed") {
-        logger.info(`Action https://github.com/${owner}/${repo}/actions/runs/${workflow_id} was already finished`);
-        return true;
+    if (options.strategy === "minor" || options.minor) {
+        return `${base.prefix}${bump_core(base.core, true).join(".")}${pre ? PRE : ""}`;
     }
 
-    if (action) {
-        logger.info(`Waiting for action https://github.com/${owner}/${repo}/actions/runs/${workflow_id} to finish`);
-    } else {
-        logger.info(`Waiting for action for ${owner}/${repo}:${ref} to start`);
+    if (!is_conventional(base)) {
+        // Unknown prerelease format: fall back to incrementing the last number in the tag
+        return increment_tag(parse_tag(base.tag.split("+")[0]), pre);
     }
 
-    logger.info("Sleeping for 2 minutes");
-    await wait(1000 * 60 * 2);
+    return increment_tag(parse_tag(`${base.prefix}${base.core.join(".")}`), pre);
+}
 
-    for (var i = 0; i < 6; i++) {
-        const workflow_status = await get_action_state(repo_id, workflow_id);
-    
-        if (workflow_status == "failed") {
-            logger.info(`Action https://github.com/${owner}/${repo}/actions/runs/${workflow_id} has failed`);
-            return false;
-        }
+export async function create_tag(repo_id: RepoId, tag_name: string, base: string = "HEAD") {
+    await exec(`git tag -f ${tag_name} ${base}`, { cwd: get_repo_path(repo_id) });
+}
 
-        if (workflow_status == "completed") {
-            logger.info(`Action https://github.com/${owner}/${repo}/actions/runs/${workflow_id} has completed`);
-            return false;
-        }
-    
-        logger.info("Sleeping for 1 minute");
-        await wait(1000 * 60);
-    }
+/** Pushes a tag and finds the release workflow run that it started, if the repo has a release workflow */
+export async function push_tag(repo_id: RepoId, tag_name: string, base: string = "HEAD", options: WatchOptions = DEFAULT_WATCH_OPTIONS): Promise<WorkflowId | null> {
+    await exec(`git push origin tag ${tag_name}`, { cwd: get_repo_path(repo_id) });
 
-    logger.info(`Action https://github.com/${owner}/${repo}/actions/runs/${workflow_id} has timed out`);
+    if (fs.existsSync(path.join(get_repo_path(repo_id), ".github", "workflows", "release-tags.yml"))) {
+        const sha = (await exec(`git rev-parse ${base}`, { cwd: get_repo_path(repo_id) })).stdout.trim();
 
-    return false;
+        return await find_tag_workflow(repo_id, sha, tag_name, options);
+    } else {
+        return null;
+    }
 }
 
 export async function get_tag_for_ref(repo_id: RepoId, ref: string) {
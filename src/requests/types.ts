@@ -1,7 +1,12 @@
 import { Octokit } from "@octokit/core";
-import { gh_token } from "../env";
+import { gh_token, on_configure } from "../env";
 
-export const octokit = new Octokit({ auth: gh_token });
+export let octokit = new Octokit({ auth: gh_token });
+
+// The token can change when a subcommand parses its arguments
+on_configure(() => {
+    octokit = new Octokit({ auth: gh_token });
+});
 
 export type NamedObject = {
     databaseId: number;
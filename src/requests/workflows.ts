@@ -0,0 +1,179 @@
+import _ from "lodash";
+import { get_host, HostWorkflowRun } from "./host";
+import { parse_repo_id, RepoConfig, RepoId } from "./repos";
+import { logger } from "../env";
+import { wait } from "../mmxxl_utils";
+
+export type WorkflowId = number;
+
+export type WorkflowStatus = "unknown" | "in-progress" | "failed" | "completed";
+
+/** How long to wait for workflow runs, and how often to poll them. All durations are in seconds. */
+export type WatchOptions = {
+    /** How long to wait for a run to start after its tag was pushed */
+    start_timeout: number;
+    /** How long to wait for a run to finish before deeming it failed */
+    timeout: number;
+    /** The first delay between polls */
+    poll_interval: number;
+    /** The delay between polls is multiplied by this after every poll */
+    backoff: number;
+    /** The longest delay between polls */
+    max_poll_interval: number;
+};
+
+export const DEFAULT_WATCH_OPTIONS: WatchOptions = {
+    start_timeout: 2 * 60,
+    timeout: 30 * 60,
+    poll_interval: 30,
+    backoff: 1.5,
+    max_poll_interval: 5 * 60,
+};
+
+/** The watch options for a repo, from its config */
+export function get_watch_options(config: RepoConfig | null): WatchOptions {
+    if (!config) return DEFAULT_WATCH_OPTIONS;
+
+    return {
+        ...DEFAULT_WATCH_OPTIONS,
+        timeout: config.workflowTimeout,
+        poll_interval: config.workflowPollInterval,
+        backoff: config.workflowBackoff,
+    };
+}
+
+export type WorkflowResult = {
+    workflow_id: WorkflowId;
+    url: string;
+    success: boolean;
+    /** The last status that the run was seen in */
+    status: WorkflowStatus;
+    conclusion: string | null;
+    /** Why the run was deemed failed, or null if it succeeded */
+    reason: string | null;
+};
+
+const RUNNING_STATUSES = ["queued", "in_progress", "requested", "waiting", "pending"];
+const SUCCESSFUL_CONCLUSIONS = ["success"];
+
+/** Maps a run's status and conclusion to a WorkflowStatus. A completed run only counts as completed if it succeeded. */
+export function get_workflow_status(run: HostWorkflowRun): WorkflowStatus {
+    if (run.status === "completed") {
+        if (!run.conclusion) return "unknown";
+
+        return SUCCESSFUL_CONCLUSIONS.includes(run.conclusion) ? "completed" : "failed";
+    }
+
+    if (run.status && RUNNING_STATUSES.includes(run.status)) return "in-progress";
+
+    return "unknown";
+}
+
+function next_delay(delay: number, options: WatchOptions): number {
+    return Math.min(delay * options.backoff, options.max_poll_interval);
+}
+
+/** Finds the workflow run that pushing a tag started, polling until it appears or the start timeout runs out */
+export async function find_tag_workflow(repo_id: RepoId, sha: string, tag_name: string, options: WatchOptions = DEFAULT_WATCH_OPTIONS): Promise<WorkflowId | null> {
+    const repo_info = parse_repo_id(repo_id);
+    const started = Date.now();
+
+    var delay = options.poll_interval;
+
+    while (true) {
+        const workflow_run = await get_host().find_workflow_run(repo_info, sha, tag_name);
+
+        if (workflow_run) {
+            logger.info(`Found action for ${tag_name} (${sha}): ${get_host().get_workflow_run_url(repo_info, workflow_run.id)}`);
+
+            return workflow_run.id;
+        }
+
+        const remaining = options.start_timeout - (Date.now() - started) / 1000;
+
+        if (remaining <= 0) {
+            logger.error(`Could not find action run for ${tag_name} (${sha}) after ${options.start_timeout} seconds: assuming it was cancelled`);
+            return null;
+        }
+
+        logger.info(`Could not find action run for ${tag_name} (${sha}): checking again in ${Math.ceil(Math.min(delay, remaining))} seconds`);
+
+        await wait(Math.min(delay, remaining) * 1000);
+
+        delay = next_delay(delay, options);
+    }
+}
+
+/** Polls a workflow run with backoff until it finishes or times out */
+export async function watch_workflow(repo_id: RepoId, workflow_id: WorkflowId, options: WatchOptions = DEFAULT_WATCH_OPTIONS): Promise<WorkflowResult> {
+    const repo_info = parse_repo_id(repo_id);
+    const url = get_host().get_workflow_run_url(repo_info, workflow_id);
+    const started = Date.now();
+
+    const result: WorkflowResult = {
+        workflow_id,
+        url,
+        success: false,
+        status: "unknown",
+        conclusion: null,
+        reason: null,
+    };
+
+    var delay = options.poll_interval;
+
+    while (true) {
+        var run: HostWorkflowRun | null = null;
+
+        try {
+            run = await get_host().get_workflow_run(repo_info, workflow_id);
+        } catch (e) {
+            logger.warn(`Could not get the state of action ${url}: ${e}`);
+        }
+
+        result.status = run ? get_workflow_status(run) : "unknown";
+        result.conclusion = run?.conclusion || null;
+
+        if (result.status === "completed") {
+            logger.info(`Action ${url} has completed`);
+            result.success = true;
+            return result;
+        }
+
+        if (result.status === "failed") {
+            result.reason = `the run concluded with '${result.conclusion}'`;
+            logger.info(`Action ${url} has failed: ${result.reason}`);
+            return result;
+        }
+
+        const remaining = options.timeout - (Date.now() - started) / 1000;
+
+        if (remaining <= 0) {
+            result.reason = run ?
+                `timed out after ${options.timeout} seconds (last status: '${run.status}')` :
+                `the run could not be found within ${options.timeout} seconds`;
+            logger.info(`Action ${url} has failed: ${result.reason}`);
+            return result;
+        }
+
+        logger.info(`Action ${url} is ${result.status}: checking again in ${Math.ceil(Math.min(delay, remaining))} seconds`);
+
+        await wait(Math.min(delay, remaining) * 1000);
+
+        delay = next_delay(delay, options);
+    }
+}
+
+export type WatchedWorkflow = {
+    repo_id: RepoId;
+    workflow_id: WorkflowId;
+    options?: WatchOptions;
+};
+
+/** Watches several workflow runs at once, each with its own options. The results are in the same order as the runs. */
+export async function watch_workflows(workflows: WatchedWorkflow[]): Promise<WorkflowResult[]> {
+    if (workflows.length > 0) {
+        logger.info(`Waiting for ${workflows.length} action(s) to finish`);
+    }
+
+    return await Promise.all(_.map(workflows, w => watch_workflow(w.repo_id, w.workflow_id, w.options)));
+}
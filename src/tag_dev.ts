@@ -1,31 +1,40 @@
 import _ from "lodash";
-import { checkout_branch, clone_repo, force_push, get_commits, get_repos, normalize_repo_id, parse_repo_id, RepoId, RepoInfo, stringify_repo_id, unclone_repo, update_repo } from "./requests/repos";
-import { get_branch_commits, get_dev_branch_status } from "./requests/branches";
-import { get_pr, parse_pr, PRId, stringify_pr, get_merged_prs } from "./requests/prs";
-import { dev_branch, dryrun, logger, repos } from "./env";
+import { checkout_branch, clone_repo, force_push, get_commits, get_ref_sha, get_remote_ref_sha, get_repo_config, normalize_repo_id, parse_repo_id, RepoConfig, RepoId, RepoInfo, restore_remote_ref, stringify_repo_id, unclone_repo, update_repo } from "./requests/repos";
+import { get_host } from "./requests/host";
+import { read_dev_status } from "./requests/status";
+import { get_pr, parse_pr, PRId, stringify_pr, get_merged_prs, MINOR_BUMP_LABELS } from "./requests/prs";
+import { clone_scratchpad, dev_branch, dryrun, logger } from "./env";
 import { DepGraph } from "dependency-graph";
-import { push_tag, get_latest_tag, get_latest_tags, get_tag_for_ref, increment_tag, ParsedTag, stringify_tag, wait_for_action, create_tag, WorkflowId } from "./requests/tags";
+import { BumpOptions, push_tag, get_latest_tag, get_latest_versions, get_tag_for_ref, next_tag, stringify_tag, create_tag } from "./requests/tags";
+import { get_watch_options, watch_workflows, WatchOptions, WorkflowId, WorkflowResult } from "./requests/workflows";
 import yaml from "yaml";
+import { find_cycles } from "./mmxxl_utils";
+import path from "path";
+import fs from "fs";
+import { Changelog, ChangelogPR, format_changelog, to_changelog_pr, write_changelog } from "./changelog";
+import { upsert_release } from "./requests/releases";
+
+export type TagScan = {
+    /// PRs merged into the master branch
+    masterPRs: {[repo:string]: PRId[]};
+    /// PRs merged into the dev branch
+    devPRs: {[repo:string]: PRId[]};
+
+    /// PRs required by the master branch
+    masterDependencies: {[repo:string]: PRId[]};
+    /// PRs required by the dev branch
+    devDependencies: {[repo:string]: PRId[]};
+
+    has_dev: {[repo:string]: boolean};
+
+    /// The labels of the PRs that will be released by each target (for picking the version bump)
+    labels: {[target:string]: string[]};
+
+    /// What the changelogs say about each PR in masterPRs and devPRs, by permalink
+    prs: {[permalink:string]: ChangelogPR};
+};
 
-const repo_ids = repos.length === 0 ? await get_repos() : _.map(repos, normalize_repo_id);
-
-logger.debug(`Scanning repos: ${repo_ids.map(x => `"${x}"`).join(", ")}`);
-
-logger.info(`Scanning ${repo_ids.length} repos`);
-
-/// PRs merged into the master branch
-const masterPRs: {[repo:string]: PRId[]} = {};
-/// PRs merged into the dev branch
-const devPRs: {[repo:string]: PRId[]} = {};
-
-/// PRs required by the master branch
-const masterDependencies: {[repo:string]: PRId[]} = {};
-/// PRs required by the dev branch
-const devDependencies: {[repo:string]: PRId[]} = {};
-
-const has_dev: {[repo:string]: boolean} = {};
-
-async function fetch_master_prs(repo_id: RepoId, default_branch: string) {
+async function fetch_master_prs(scan: TagScan, repo_id: RepoId, default_branch: string) {
     const latest_master = await get_latest_tag(repo_id);
     const commits_since_master_tag = await get_commits(repo_id, `${stringify_tag(latest_master)}..HEAD`);
 
@@ -41,313 +50,782 @@ async function fetch_master_prs(repo_id: RepoId, default_branch: string) {
 
     const repo_info = parse_repo_id(repo_id);
 
-    masterPRs[repo_id] = _.map(merged_prs.prs, pr => ({ repo_id: repo_info, pr: pr.number }));
-    masterDependencies[repo_id] = merged_prs.dependencies;
+    scan.masterPRs[repo_id] = _.map(merged_prs.prs, pr => ({ repo_id: repo_info, pr: pr.number }));
+    scan.masterDependencies[repo_id] = merged_prs.dependencies;
+    scan.labels[`${repo_id}:master`] = _(merged_prs.prs).flatMap("labels").uniq().value();
+
+    for (const pr of merged_prs.prs) {
+        scan.prs[pr.permalink] = to_changelog_pr(pr);
+    }
 }
 
-async function fetch_dev_prs(repo_id: RepoId) {
+async function fetch_dev_prs(scan: TagScan, repo_id: RepoId) {
     if (await checkout_branch(repo_id, dev_branch)) {
-        has_dev[repo_id] = true;
+        scan.has_dev[repo_id] = true;
 
-        const dev_commits = await get_commits(repo_id, `${dev_branch}~5..${dev_branch}`);
-    
-        const status = get_dev_branch_status(dev_commits);
+        const status = await read_dev_status(repo_id, dev_branch);
     
         if (status) {
-            devPRs[repo_id] = _.map(status["Included PRs"], pr => parse_pr(pr) as PRId);
-            devDependencies[repo_id] = _(status["Dependencies"]).map(parse_pr).filter(Boolean).value() as PRId[];
+            scan.devPRs[repo_id] = _.map(status["Included PRs"], pr => parse_pr(pr) as PRId);
+            scan.devDependencies[repo_id] = _(status["Dependencies"]).map(parse_pr).filter(Boolean).value() as PRId[];
+
+            const labels: string[] = [];
+
+            for (const pr_id of scan.devPRs[repo_id]) {
+                const pr = await get_pr(pr_id);
+
+                if (pr) {
+                    labels.push(...pr.labels);
+                    scan.prs[pr.permalink] = to_changelog_pr(pr);
+                }
+            }
+
+            scan.labels[`${repo_id}:dev`] = _.uniq(labels);
         }
 
         await checkout_branch(repo_id, "-");
     }
 }
 
-logger.info(yaml.stringify({
-    "Scanning PR dependencies for repos": repo_ids
-}));
+/** Clones each repo and finds the PRs that were merged into its master and dev branches since they were last tagged */
+export async function scan_repos(repo_ids: RepoId[]): Promise<TagScan> {
+    const scan: TagScan = {
+        masterPRs: {},
+        devPRs: {},
+        masterDependencies: {},
+        devDependencies: {},
+        has_dev: {},
+        labels: {},
+        prs: {},
+    };
 
-for (const repo_id of repo_ids) {
-    await unclone_repo(repo_id);
+    logger.info(yaml.stringify({
+        "Scanning PR dependencies for repos": repo_ids
+    }));
 
-    const { default_branch } = await clone_repo(repo_id, false);
+    for (const repo_id of repo_ids) {
+        await unclone_repo(repo_id);
 
-    await fetch_master_prs(repo_id, default_branch);
-    await fetch_dev_prs(repo_id);
+        const { default_branch } = await clone_repo(repo_id, false);
 
-    await unclone_repo(repo_id);
-}
+        await fetch_master_prs(scan, repo_id, default_branch);
+        await fetch_dev_prs(scan, repo_id);
 
-if (!_.isEmpty(masterPRs)) {
-    logger.info(yaml.stringify({
-        "PRs merged into master branches": _.mapValues(masterPRs, value => _.map(value, stringify_pr))
-    }));
-}
+        await unclone_repo(repo_id);
+    }
 
-if (!_.isEmpty(masterDependencies)) {
-    logger.info(yaml.stringify({
-        "Dependencies between repo master branches (for tagging order)": _.mapValues(masterDependencies, value => _.map(value, stringify_pr))
-    }));
-}
+    if (!_.isEmpty(scan.masterPRs)) {
+        logger.info(yaml.stringify({
+            "PRs merged into master branches": _.mapValues(scan.masterPRs, value => _.map(value, stringify_pr))
+        }));
+    }
 
-if (!_.isEmpty(devPRs)) {
-    logger.info(yaml.stringify({
-        "PRs merged into dev branches": _.mapValues(devPRs, value => _.map(value, stringify_pr))
-    }));
-}
+    if (!_.isEmpty(scan.masterDependencies)) {
+        logger.info(yaml.stringify({
+            "Dependencies between repo master branches (for tagging order)": _.mapValues(scan.masterDependencies, value => _.map(value, stringify_pr))
+        }));
+    }
 
-if (!_.isEmpty(devDependencies)) {
-    logger.info(yaml.stringify({
-        "Dependencies between repo dev branches (for tagging order)": _.mapValues(devDependencies, value => _.map(value, stringify_pr))
-    }));
+    if (!_.isEmpty(scan.devPRs)) {
+        logger.info(yaml.stringify({
+            "PRs merged into dev branches": _.mapValues(scan.devPRs, value => _.map(value, stringify_pr))
+        }));
+    }
+
+    if (!_.isEmpty(scan.devDependencies)) {
+        logger.info(yaml.stringify({
+            "Dependencies between repo dev branches (for tagging order)": _.mapValues(scan.devDependencies, value => _.map(value, stringify_pr))
+        }));
+    }
+
+    return scan;
 }
 
 /// A spec string of the format Org/Repo:Branch
-type PRDestStr = string;
-type PRDestination = {
+export type PRDestStr = string;
+export type PRDestination = {
     repo_info: RepoInfo;
     branch: "master" | "dev";
 };
 
-function stringify_dest(dest: PRDestination): PRDestStr {
+export function stringify_dest(dest: PRDestination): PRDestStr {
     return `${stringify_repo_id(dest.repo_info)}:${dest.branch}`;
 }
 
-const pr_locations: {[pr: string]: PRDestination} = {};
-
-for (const repo_id in devPRs) {
-    for (const pr_id of devPRs[repo_id]) {
-        pr_locations[stringify_pr(pr_id)] = {
-            repo_info: parse_repo_id(repo_id),
-            branch: "dev",
-        };
+/**
+ * Builds the graph of tagging targets (each repo's master and dev branches) from the PR dependencies found by scan_repos.
+ * Targets that are in a dependency cycle, or that depend on one, are left out of the graph and added to `skipped` with the reason why.
+ */
+export function build_tag_graph(repo_ids: RepoId[], scan: TagScan, skipped: {[target: string]: string} = {}): DepGraph<PRDestination> {
+    const pr_locations: {[pr: string]: PRDestination} = {};
+
+    for (const repo_id in scan.devPRs) {
+        for (const pr_id of scan.devPRs[repo_id]) {
+            pr_locations[stringify_pr(pr_id)] = {
+                repo_info: parse_repo_id(repo_id),
+                branch: "dev",
+            };
+        }
     }
-}
 
-for (const repo_id in masterPRs) {
-    for (const pr_id of masterPRs[repo_id]) {
-        pr_locations[stringify_pr(pr_id)] = {
-            repo_info: parse_repo_id(repo_id),
-            branch: "master",
-        };
+    for (const repo_id in scan.masterPRs) {
+        for (const pr_id of scan.masterPRs[repo_id]) {
+            pr_locations[stringify_pr(pr_id)] = {
+                repo_info: parse_repo_id(repo_id),
+                branch: "master",
+            };
+        }
     }
-}
-
-logger.info(yaml.stringify({
-    "PR locations": _.mapValues(pr_locations, stringify_dest)
-}));
 
-const graph = new DepGraph<PRDestination>();
+    logger.info(yaml.stringify({
+        "PR locations": _.mapValues(pr_locations, stringify_dest)
+    }));
 
-for (const repo of repo_ids) {
-    graph.addNode(`${repo}:master`, {
-        repo_info: parse_repo_id(repo),
-        branch: "master",
-    });
+    const graph = new DepGraph<PRDestination>();
 
-    if (has_dev[repo]) {
-        graph.addNode(`${repo}:dev`, {
+    for (const repo of repo_ids) {
+        graph.addNode(`${repo}:master`, {
             repo_info: parse_repo_id(repo),
-            branch: "dev",
+            branch: "master",
         });
-    
-        // Force the dev tagging for each repo to happen after master. If something causes a cyclic dependency, the repo deps are fucked regardless and we should bail
-        graph.addDependency(`${repo}:dev`, `${repo}:master`);
+
+        if (scan.has_dev[repo]) {
+            graph.addNode(`${repo}:dev`, {
+                repo_info: parse_repo_id(repo),
+                branch: "dev",
+            });
+        
+            // Force the dev tagging for each repo to happen after master. If something causes a cyclic dependency, the repo deps are fucked regardless and we should bail
+            graph.addDependency(`${repo}:dev`, `${repo}:master`);
+        }
     }
-}
 
-var success = true;
+    var success = true;
 
-for (const repo of repo_ids) {
-    if (masterDependencies[repo]) {
-        for (const dep of masterDependencies[repo]) {
-            const depDest = pr_locations[stringify_pr(dep)];
-    
-            if (!depDest) {
-                logger.error(`Repo ${repo} requires PR ${stringify_pr(dep)}, which does not exist`);
-                success = false;
-                continue;
-            }
-    
-            if (depDest.branch === "dev") {
-                logger.warn(`Master branch for ${repo} depends on dev PR: ${stringify_pr(dep)}`);
+    for (const repo of repo_ids) {
+        if (scan.masterDependencies[repo]) {
+            for (const dep of scan.masterDependencies[repo]) {
+                const depDest = pr_locations[stringify_pr(dep)];
+        
+                if (!depDest) {
+                    logger.error(`Repo ${repo} requires PR ${stringify_pr(dep)}, which does not exist`);
+                    success = false;
+                    continue;
+                }
+        
+                if (depDest.branch === "dev") {
+                    logger.warn(`Master branch for ${repo} depends on dev PR: ${stringify_pr(dep)}`);
+                }
+        
+                const from = `${normalize_repo_id(repo)}:master`;
+                const to = stringify_dest(depDest);
+        
+                if (!graph.hasNode(to)) {
+                    logger.warn(`Ignoring invalid depencency for ${repo}: ${to}`);
+                    continue;
+                }
+        
+                graph.addDependency(from, to);
             }
-    
-            const from = `${normalize_repo_id(repo)}:master`;
-            const to = stringify_dest(depDest);
-    
-            if (!graph.hasNode(to)) {
-                logger.warn(`Ignoring invalid depencency for ${repo}: ${to}`);
-                continue;
+        }
+
+        if (scan.devDependencies[repo]) {
+            for (const dep of scan.devDependencies[repo]) {
+                const depDest = pr_locations[stringify_pr(dep)];
+        
+                if (!depDest) {
+                    logger.error(`Repo ${repo} requires PR ${stringify_pr(dep)}, which does not exist`);
+                    success = false;
+                    continue;
+                }
+        
+                const from = `${normalize_repo_id(repo)}:dev`;
+                const to = stringify_dest(depDest);
+        
+                if (!graph.hasNode(to)) {
+                    logger.warn(`Ignoring invalid depencency for ${repo}: ${to}`);
+                    continue;
+                }
+        
+                graph.addDependency(from, to);
             }
-    
-            graph.addDependency(from, to);
         }
     }
 
-    if (devDependencies[repo]) {
-        for (const dep of devDependencies[repo]) {
-            const depDest = pr_locations[stringify_pr(dep)];
-    
-            if (!depDest) {
-                logger.error(`Repo ${repo} requires PR ${stringify_pr(dep)}, which does not exist`);
-                success = false;
-                continue;
-            }
-    
-            const from = `${normalize_repo_id(repo)}:dev`;
-            const to = stringify_dest(depDest);
-    
-            if (!graph.hasNode(to)) {
-                logger.warn(`Ignoring invalid depencency for ${repo}: ${to}`);
-                continue;
-            }
-    
-            graph.addDependency(from, to);
+    if (!success) {
+        throw new Error("PR dependency check failed");
+    }
+
+    const skip = (target: PRDestStr, reason: string) => {
+        if (skipped[target]) return;
+
+        skipped[target] = reason;
+
+        for (const dependant of graph.directDependantsOf(target)) {
+            skip(dependant, `depends on ${target}, which was skipped`);
+        }
+    };
+
+    const targets = _.flatMap(repo_ids, repo => [`${repo}:master`, `${repo}:dev`]);
+
+    for (const cycle of find_cycles(graph, targets)) {
+        const path = cycle.join(" -> ");
+
+        logger.error(`Targets depend on each other in a cycle: ${path}. They will not be tagged`);
+
+        for (const target of _.uniq(cycle)) {
+            skipped[target] = `is part of the dependency cycle ${path}`;
+        }
+    }
+
+    for (const target of _.keys(skipped)) {
+        for (const dependant of graph.hasNode(target) ? graph.directDependantsOf(target) : []) {
+            skip(dependant, `depends on ${target}, which was skipped`);
         }
     }
+
+    for (const target in skipped) {
+        if (graph.hasNode(target)) graph.removeNode(target);
+    }
+
+    if (!_.isEmpty(skipped)) {
+        logger.warn(yaml.stringify({
+            "Skipped targets": skipped,
+        }));
+    }
+
+    return graph;
 }
 
-if (!success) {
-    throw new Error("PR dependency check failed");
+export type CreatedTag = {
+    tag: string;
+    branch: string;
+    /** The dependency tags that were written into dependencies.gradle before tagging */
+    tag_overrides: {[repo: string]: string};
+    workflow_id: WorkflowId | null;
+    /** How the tag's workflow is watched, from the repo's config */
+    watch: WatchOptions;
+    /** Whether the tag was pushed. Targets whose tags were pushed are skipped when the run is resumed. */
+    pushed: boolean;
+    /** The Markdown changelog that was written for the tag, or null if it has none */
+    changelog: string | null;
+    /** The browser link of the tag's release, or null if none was created */
+    release: string | null;
+};
+
+/** A branch or tag that tag-dev pushed, recorded so that it can be rolled back */
+export type ChangedRef = {
+    repo_id: RepoId;
+    /** `refs/heads/<branch>` or `refs/tags/<tag>` */
+    ref: string;
+    /** What the ref pointed at before it was pushed, or null if it didn't exist */
+    previous: string | null;
+    /** What the ref was pushed as */
+    current: string;
+};
+
+export type TagState = {
+    /** The run that this state belongs to, which names its state file */
+    run_id: string | null;
+    repo_ids: RepoId[];
+    /** The scan that the tagging graph was built from. Resumed runs reuse it instead of rescanning the (partially tagged) repos. */
+    scan: TagScan | null;
+
+    order: PRDestStr[];
+    /** Targets that were not tagged because their branch was already tagged */
+    already_tagged: PRDestStr[];
+    /** Targets that were not tagged because of a dependency cycle, and why */
+    skipped: {[target: string]: string};
+    tags: {[target: string]: CreatedTag};
+
+    passed_workflows: {[target: string]: boolean};
+    workflows: {[target: string]: WorkflowId};
+    /** The outcome of each awaited workflow, including why it failed */
+    workflow_results: {[target: string]: WorkflowResult};
+
+    master_tags: {[repo: string]: string};
+    pre_tags: {[repo: string]: string};
+
+    /** Every ref that this run pushed and has not rolled back, in the order they were pushed */
+    changed_refs: ChangedRef[];
+    /** The refs that were restored after the run failed in atomic mode */
+    rolled_back_refs: ChangedRef[];
+};
+
+export function new_tag_state(run_id: string | null = null): TagState {
+    return {
+        run_id,
+        repo_ids: [],
+        scan: null,
+        order: [],
+        already_tagged: [],
+        skipped: {},
+        tags: {},
+        passed_workflows: {},
+        workflows: {},
+        workflow_results: {},
+        master_tags: {},
+        pre_tags: {},
+        changed_refs: [],
+        rolled_back_refs: [],
+    };
 }
 
-const passed_workflows: {[repo: string]: boolean} = {};
-const workflows: {[target: string]: WorkflowId} = {};
+/** Identifies a tag-dev run. Re-running a GitHub Action keeps its run id, so a re-run can resume the run that it is repeating. */
+export function new_run_id(): string {
+    return process.env.GITHUB_RUN_ID || new Date().toISOString().replace(/[:.]/g, "-");
+}
 
-const master_tags: {[repo: string]: string} = {};
-const pre_tags: {[repo: string]: string} = {};
+/** The folder that tag-dev runs write their progress to */
+export function get_tag_state_dir() {
+    return path.join(clone_scratchpad, ".tag-dev");
+}
 
-function compare_tag_versions(a: ParsedTag, b: ParsedTag): number {
-    for (const [l, r] of _.zip(a.values, b.values)) {
-        if (l === undefined || r === undefined) {
-            if (l === undefined && r == undefined) {
-                return 0;
-            }
+export function get_tag_state_path(run_id: string) {
+    return path.join(get_tag_state_dir(), `${run_id}.json`);
+}
 
-            return l === undefined ? -1 : 1;
-        }
+/** The folder that the changelogs of a run's tags are written to, unless another one is given */
+export function get_changelog_dir(run_id: string | null) {
+    return path.join(get_tag_state_dir(), run_id ? `${run_id}-changelogs` : "changelogs");
+}
 
-        if (l == r) continue;
+/** Finds the state file of the most recent run, or null if no run has saved its progress */
+export function find_latest_tag_state(): string | null {
+    if (!fs.existsSync(get_tag_state_dir())) return null;
 
-        return l < r ? -1 : 1;
+    const files = _(fs.readdirSync(get_tag_state_dir()))
+        .filter(f => f.endsWith(".json"))
+        .map(f => path.join(get_tag_state_dir(), f))
+        .sortBy(f => fs.statSync(f).mtimeMs)
+        .value();
+
+    return _.last(files) || null;
+}
+
+/**
+ * Finds the state file that --resume continues from: the given run's, else the one of the current GitHub Action run (a re-run
+ * keeps its run id, and must not pick up another run's state), else the most recent one.
+ */
+export function find_resume_state(run_id: string | null): string | null {
+    run_id = run_id || process.env.GITHUB_RUN_ID || null;
+
+    return run_id ? get_tag_state_path(run_id) : find_latest_tag_state();
+}
+
+export function save_tag_state(file: string, state: TagState) {
+    fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(state, null, 2));
+}
+
+export function load_tag_state(file: string): TagState {
+    if (!fs.existsSync(file)) {
+        throw new Error(`Could not resume tag-dev: state file ${file} does not exist`);
     }
 
-    return 0;
+    return {
+        ...new_tag_state(),
+        ...JSON.parse(fs.readFileSync(file).toString()),
+    };
+}
+
+/** Whether a previous attempt of this run already finished the target */
+function is_target_done(state: TagState, target: PRDestStr): boolean {
+    return state.already_tagged.includes(target) || Boolean(state.tags[target]?.pushed);
 }
 
-logger.info(yaml.stringify({
-    "Tagging order": graph.overallOrder()
-}));
+/** Picks how a target's version is bumped from its repo's config and the labels of the PRs that it releases */
+export function get_bump_options(config: RepoConfig | null, labels: string[]): BumpOptions {
+    return {
+        strategy: config ? config.versionBump : "patch",
+        minor: _.intersection(labels, config ? config.minorBumpLabels : MINOR_BUMP_LABELS).length > 0,
+    };
+}
 
-for (const target of graph.overallOrder()) {
-    logger.info(`Creating releases for ${target}`);
+/** The PRs that a target's tag releases. PRs that were not recorded in the scan only have their permalink and number. */
+function get_changelog_prs(scan: TagScan, pr_ids: PRId[]): ChangelogPR[] {
+    return _.map(pr_ids, pr_id => {
+        const permalink = stringify_pr(pr_id);
 
-    const dest = graph.getNodeData(target);
+        return scan.prs?.[permalink] || { permalink, number: pr_id.pr, title: permalink, author: null, labels: [], cross_repo_dependencies: [] };
+    });
+}
 
+/** The changelog of a target's tag. Without a scan, it only lists the dependency tags. */
+function get_target_changelog(scan: TagScan | null, dest: PRDestination, tag: string, tag_overrides: {[repo: string]: string}): Changelog {
     const repo_id = stringify_repo_id(dest.repo_info);
 
-    try {
-        const { default_branch } = await clone_repo(repo_id);
+    const master_prs = scan ? get_changelog_prs(scan, scan.masterPRs[repo_id] || []) : [];
+    // A PR that was merged since dev was built is still listed in its status, but it's no longer experimental
+    const experimental_prs = scan && dest.branch === "dev" ?
+        _.differenceBy(get_changelog_prs(scan, scan.devPRs[repo_id] || []), master_prs, "permalink") :
+        [];
 
-        const branch = dest.branch === "dev" ? dev_branch : default_branch;
+    return { repo_id, tag, branch: dest.branch, master_prs, experimental_prs, tag_overrides };
+}
 
-        const latestTags = await get_latest_tags(repo_id);
-        latestTags.sort(compare_tag_versions);
+export type CreateTagsOptions = {
+    /** Writes the changelog of each tag into this folder */
+    changelog_dir?: string | null;
+};
+
+/**
+ * Tags every target in dependency order, waiting for the workflows of a target's dependencies before tagging it.
+ * `scan` picks the version bumps from the labels of the PRs released by each target, and fills their changelogs.
+ * `save` is called whenever the state changes, so that the progress can be persisted.
+ * Targets that the state says are finished are skipped.
+ */
+export async function create_tags(graph: DepGraph<PRDestination>, state: TagState = new_tag_state(), scan: TagScan | null = state.scan, save: (state: TagState) => void = () => {}, options: CreateTagsOptions = {}): Promise<TagState> {
+    state.order = graph.overallOrder();
 
-        const latestTag = _.last(latestTags) as ParsedTag;
+    logger.info(yaml.stringify({
+        "Tagging order": state.order
+    }));
+
+    save(state);
+
+    for (const target of graph.overallOrder()) {
+        if (is_target_done(state, target)) {
+            logger.info(`${target} was already finished by a previous attempt of this run${state.tags[target] ? ` (tag: ${state.tags[target].tag})` : ""}: skipping`);
+            continue;
+        }
 
-        if (await checkout_branch(repo_id, branch)) {
-            if (await get_tag_for_ref(repo_id, branch)) {
-                logger.info(`${branch} branch for ${repo_id} already has a tag: it will not be tagged again because it has not been updated`)
-            } else {
-                const tag_name = increment_tag(latestTag, dest.branch === "dev");
+        logger.info(`Creating releases for ${target}`);
 
-                if (dest.branch === "dev") {
-                    pre_tags[repo_id] = tag_name;
+        const dest = graph.getNodeData(target);
+
+        const repo_id = stringify_repo_id(dest.repo_info);
+
+        try {
+            const { default_branch } = await clone_repo(repo_id);
+
+            const branch = dest.branch === "dev" ? dev_branch : default_branch;
+
+            const latest = await get_latest_versions(repo_id);
+
+            if (await checkout_branch(repo_id, branch)) {
+                if (await get_tag_for_ref(repo_id, branch)) {
+                    logger.info(`${branch} branch for ${repo_id} already has a tag: it will not be tagged again because it has not been updated`)
+                    state.already_tagged.push(target);
+                    save(state);
                 } else {
-                    master_tags[repo_id] = tag_name;
-                }
-    
-                logger.info(`Creating tag ${tag_name} off of ${branch} branch (target: ${target})`);
-    
-                const tag_overrides: {[repo_id:string]: string} = {};
+                    const config = await get_repo_config(repo_id);
 
-                for (const dep_target of graph.dependenciesOf(target)) {
-                    const target_data = graph.getNodeData(dep_target);
+                    const bump = get_bump_options(config, scan?.labels[target] || []);
+                    const watch = get_watch_options(config);
 
-                    // Skip the dev -> master dep because it's irrelevant here
-                    if (_.isMatch(dest.repo_info, target_data.repo_info) && target_data.branch === "master") {
-                        continue;
+                    const tag_name = next_tag(latest, dest.branch === "dev", bump);
+
+                    if (dest.branch === "dev") {
+                        state.pre_tags[repo_id] = tag_name;
+                    } else {
+                        state.master_tags[repo_id] = tag_name;
                     }
+        
+                    logger.info(`Creating tag ${tag_name} off of ${branch} branch (target: ${target}, bump: ${bump.strategy}${bump.minor ? ", minor" : ""})`);
+        
+                    const tag_overrides: {[repo_id:string]: string} = {};
 
-                    logger.info(`Checking dependency ${dep_target} (target: ${target})`);
-    
-                    tag_overrides[target_data.repo_info.repo] = target_data.branch === "dev" ?
-                        pre_tags[stringify_repo_id(target_data.repo_info)] :
-                        master_tags[stringify_repo_id(target_data.repo_info)];
+                    const awaited: PRDestStr[] = [];
 
-                    if (passed_workflows[dep_target]) {
-                        logger.info(`Workflow was already waited for and succeeded: skipping`);
-                        continue;
+                    for (const dep_target of graph.dependenciesOf(target)) {
+                        const target_data = graph.getNodeData(dep_target);
+
+                        // Skip the dev -> master dep because it's irrelevant here
+                        if (_.isMatch(dest.repo_info, target_data.repo_info) && target_data.branch === "master") {
+                            continue;
+                        }
+
+                        logger.info(`Checking dependency ${dep_target} (target: ${target})`);
+        
+                        tag_overrides[target_data.repo_info.repo] = target_data.branch === "dev" ?
+                            state.pre_tags[stringify_repo_id(target_data.repo_info)] :
+                            state.master_tags[stringify_repo_id(target_data.repo_info)];
+
+                        if (state.passed_workflows[dep_target]) {
+                            logger.info(`Workflow was already waited for and succeeded: skipping`);
+                            continue;
+                        }
+
+                        if (state.workflows[dep_target]) {
+                            awaited.push(dep_target);
+                        } else {
+                            logger.warn(`Dependency ${dep_target} did not have a corresponding workflow`);
+
+                            state.passed_workflows[dep_target] = true;
+                            save(state);
+                        }
                     }
 
-                    const workflow = workflows[dep_target];
-    
-                    if (workflow) {
-                        if (!await wait_for_action(stringify_repo_id(target_data.repo_info), target_data.branch, workflow)) {
-                            logger.info(`Actions for target ${dep_target} failed: cannot build ${target}, this experimental will be cancelled`);
-                            throw new Error("Could not build dependency");
+                    const failed = await await_workflows(graph, awaited, state, save);
+
+                    if (failed.length > 0) {
+                        logger.info(`Actions for the dependencies of ${target} failed: cannot build ${target}, this experimental will be cancelled`);
+                        throw new Error(`Could not build dependency: ${failed.join(", ")}`);
+                    }
+        
+                    logger.info(`Actions for all dependencies have finished: tagging ${branch} branch (target: ${target})`);
+
+                    const previous_head = await get_ref_sha(repo_id, branch);
+
+                    await update_repo(repo_id, tag_overrides);
+
+                    const head = await get_ref_sha(repo_id, branch);
+
+                    if (!dryrun) {
+                        // Record the push before doing it: rolling back a ref that wasn't pushed is harmless, but missing one isn't
+                        if (head !== previous_head) {
+                            state.changed_refs.push({ repo_id, ref: `refs/heads/${branch}`, previous: previous_head, current: head });
+                            save(state);
                         }
-                    } else {
-                        logger.warn(`Dependency ${dep_target} did not have a corresponding workflow`);
+
+                        await force_push(repo_id, branch);
                     }
+        
+                    await create_tag(repo_id, tag_name, branch);
+
+                    const changelog = get_target_changelog(scan, dest, tag_name, tag_overrides);
+
+                    state.tags[target] = {
+                        tag: tag_name,
+                        branch,
+                        tag_overrides,
+                        workflow_id: null,
+                        watch,
+                        pushed: false,
+                        changelog: options.changelog_dir ? write_changelog(options.changelog_dir, changelog) : null,
+                        release: null,
+                    };
+
+                    if (!dryrun) {
+                        state.changed_refs.push({ repo_id, ref: `refs/tags/${tag_name}`, previous: null, current: head });
+                        save(state);
+
+                        const workflow_id = await push_tag(repo_id, tag_name, branch, watch);
+            
+                        logger.info(`Created and pushed ${tag_name} (base branch: ${branch}, target: ${target}, workflow id: ${workflow_id})`);
+            
+                        if (workflow_id) {
+                            state.workflows[target] = workflow_id as number;
+                            state.tags[target].workflow_id = workflow_id;
+                        }
 
-                    passed_workflows[dep_target] = true;
+                        state.tags[target].pushed = true;
+                        save(state);
+                    } else {
+                        logger.info(`Created ${tag_name} (base branch: ${branch}, target: ${target})`);
+                    }
                 }
-    
-                logger.info(`Actions for all dependencies have finished: tagging ${branch} branch (target: ${target})`);
+            }
+        } finally {
+            if (!dryrun) await unclone_repo(repo_id);
+        }
+    }
 
-                await update_repo(repo_id, tag_overrides);
-                if (!dryrun) await force_push(repo_id, branch);
-    
-                await create_tag(repo_id, tag_name, branch);
+    return state;
+}
 
-                if (!dryrun) {
-                    const workflow_id = await push_tag(repo_id, tag_name, branch);
-        
-                    logger.info(`Created and pushed ${tag_name} (base branch: ${branch}, target: ${target}, workflow id: ${workflow_id})`);
-        
-                    if (workflow_id) {
-                        workflows[target] = workflow_id as number;
+/**
+ * Watches the workflows of the given targets at once and records their results.
+ * Returns why each failed workflow failed, or an empty list if all of them succeeded.
+ */
+async function await_workflows(graph: DepGraph<PRDestination>, targets: PRDestStr[], state: TagState, save: (state: TagState) => void): Promise<string[]> {
+    const results = await watch_workflows(_.map(targets, target => ({
+        repo_id: stringify_repo_id(graph.getNodeData(target).repo_info),
+        workflow_id: state.workflows[target],
+        options: state.tags[target]?.watch,
+    })));
+
+    const failed: string[] = [];
+
+    _.forEach(targets, (target, i) => {
+        state.workflow_results[target] = results[i];
+
+        if (results[i].success) {
+            state.passed_workflows[target] = true;
+        } else {
+            failed.push(`${target} (${results[i].url}) ${results[i].reason}`);
+        }
+    });
+
+    save(state);
+
+    return failed;
+}
+
+/** Waits for the workflows of every target that hasn't already been waited for */
+export async function wait_for_workflows(graph: DepGraph<PRDestination>, state: TagState, save: (state: TagState) => void = () => {}) {
+    logger.info("Finished tagging: waiting for all workflows to finish");
+
+    const targets = _.filter(graph.overallOrder(), target => {
+        if (state.passed_workflows[target]) {
+            logger.info(`Workflow for ${target} was already waited for and succeeded: skipping`);
+            return false;
+        }
+
+        return Boolean(state.workflows[target]);
+    });
+
+    const failed = await await_workflows(graph, targets, state, save);
+
+    if (failed.length > 0) {
+        logger.info(yaml.stringify({
+            "Failed actions (this experimental will be cancelled)": failed,
+        }));
+
+        throw new Error(`Could not build target: ${failed.join(", ")}`);
+    }
+}
+
+/**
+ * Creates or updates the release of every pushed tag that doesn't have one yet, with its changelog as the body.
+ * Only called once every workflow succeeded, so that a failed run (which may be rolled back) doesn't leave releases behind.
+ */
+export async function publish_releases(graph: DepGraph<PRDestination>, state: TagState, save: (state: TagState) => void = () => {}) {
+    for (const target of graph.overallOrder()) {
+        const created = state.tags[target];
+
+        if (!created?.pushed || created.release) continue;
+
+        const dest = graph.getNodeData(target);
+        const changelog = get_target_changelog(state.scan, dest, created.tag, created.tag_overrides);
+
+        created.release = await upsert_release(stringify_repo_id(dest.repo_info), created.tag, dest.branch === "dev", format_changelog(changelog));
+        save(state);
+    }
+}
+
+/** Finds the order that tag_dev would tag each repo's branches in, without tagging anything */
+export async function plan_tags(repo_ids: RepoId[]): Promise<PRDestStr[]> {
+    const scan = await scan_repos(repo_ids);
+
+    return build_tag_graph(repo_ids, scan).overallOrder();
+}
+
+/**
+ * Undoes everything that the run pushed: cancels its unfinished workflows, deletes its tags and restores the branches it updated.
+ * Refs that were moved by someone else since they were pushed are left alone.
+ * The run's progress is reset, so that resuming it starts tagging from scratch.
+ */
+export async function rollback_tags(state: TagState) {
+    logger.warn(`Rolling back ${state.changed_refs.length} pushed ref(s)`);
+
+    for (const target in state.workflows) {
+        const repo_info = parse_repo_id(target.split(":")[0]);
+        const workflow_id = state.workflows[target];
+
+        try {
+            const run = await get_host().get_workflow_run(repo_info, workflow_id);
+
+            if (run && run.status !== "completed") {
+                logger.info(`Cancelling workflow ${get_host().get_workflow_run_url(repo_info, workflow_id)} (target: ${target})`);
+                await get_host().cancel_workflow_run(repo_info, workflow_id);
+            }
+        } catch (e) {
+            logger.error(`Could not cancel workflow ${workflow_id} for ${target}: ${e}`);
+        }
+    }
+
+    for (const [repo_id, refs] of Object.entries(_.groupBy(state.changed_refs, "repo_id"))) {
+        try {
+            await clone_repo(repo_id, false);
+
+            for (const changed of _.reverse([...refs])) {
+                try {
+                    const remote = await get_remote_ref_sha(repo_id, changed.ref);
+
+                    if (remote === changed.previous) {
+                        logger.info(`${repo_id} ${changed.ref} was not pushed: nothing to roll back`);
+                    } else if (remote !== changed.current) {
+                        logger.error(`${repo_id} ${changed.ref} was moved to ${remote} since it was pushed: it will not be rolled back`);
+                        continue;
+                    } else {
+                        await restore_remote_ref(repo_id, changed.ref, changed.previous, changed.current);
+
+                        logger.info(changed.previous ?
+                            `Restored ${repo_id} ${changed.ref} to ${changed.previous}` :
+                            `Deleted ${repo_id} ${changed.ref}`);
                     }
-                } else {
-                    logger.info(`Created ${tag_name} (base branch: ${branch}, target: ${target})`);
+
+                    state.rolled_back_refs.push(changed);
+                    _.pull(state.changed_refs, changed);
+                } catch (e) {
+                    logger.error(`Could not roll back ${repo_id} ${changed.ref}: ${e}`);
                 }
             }
+        } finally {
+            await unclone_repo(repo_id);
         }
-    } finally {
-        if (!dryrun) await unclone_repo(repo_id);
+    }
+
+    for (const target in state.tags) {
+        state.tags[target].pushed = false;
+    }
+
+    state.workflows = {};
+    state.passed_workflows = {};
+    state.workflow_results = {};
+
+    if (state.changed_refs.length > 0) {
+        logger.error(yaml.stringify({
+            "Refs that could not be rolled back": _.map(state.changed_refs, r => `${r.repo_id} ${r.ref}`),
+        }));
     }
 }
 
-logger.info("Finished tagging: waiting for all workflows to finish");
+export type TagDevOptions = {
+    /** Writes the progress to this file after every step */
+    state_file?: string | null;
+    /** Rolls back every branch and tag that the run pushed if it fails */
+    atomic?: boolean;
+    /** Writes the changelog of each tag into this folder. Defaults to get_changelog_dir(). */
+    changelog_dir?: string | null;
+    /** Creates or updates a release for each pushed tag once every workflow succeeded */
+    releases?: boolean;
+};
+
+/**
+ * Tags the master and dev branches of each given repo in dependency order. The progress is recorded in `state` as the tags are created.
+ * If a state file is given, the progress is also written to it after every step.
+ * A state that was loaded from a previous attempt is resumed: its scan is reused and its finished targets are skipped.
+ * A Markdown changelog is written for every created tag, and its file is recorded in the tag's state.
+ */
+export async function tag_dev(repo_ids: RepoId[], state: TagState = new_tag_state(), options: TagDevOptions = {}): Promise<TagState> {
+    const save = (state: TagState) => {
+        if (options.state_file) save_tag_state(options.state_file, state);
+    };
+
+    if (state.scan) {
+        logger.info(`Resuming tag-dev run ${state.run_id}: ${_.size(_.pickBy(state.tags, "pushed")) + state.already_tagged.length} of ${state.order.length} targets were already finished`);
+    } else {
+        logger.debug(`Scanning repos: ${repo_ids.map(x => `"${x}"`).join(", ")}`);
+
+        logger.info(`Scanning ${repo_ids.length} repos`);
 
-for (const target of graph.overallOrder()) {
-    if (passed_workflows[target]) {
-        logger.info(`Workflow for ${target} was already waited for and succeeded: skipping`);
-        continue;
+        state.repo_ids = repo_ids;
+        state.scan = await scan_repos(repo_ids);
+
+        save(state);
     }
 
-    const target_data = graph.getNodeData(target);
+    const graph = build_tag_graph(state.repo_ids, state.scan, state.skipped);
 
-    const workflow = workflows[target];
+    try {
+        await create_tags(graph, state, state.scan, save, {
+            changelog_dir: options.changelog_dir || get_changelog_dir(state.run_id),
+        });
 
-    if (workflow) {
-        logger.info(`Waiting for ${target}`);
-    
-        if (!await wait_for_action(stringify_repo_id(target_data.repo_info), target_data.branch, workflow)) {
-            logger.info(`Actions for target ${target} failed: cannot build ${target}, this experimental will be cancelled`);
-            throw new Error("Could not build target");
+        await wait_for_workflows(graph, state, save);
+
+        if (options.releases && !dryrun) await publish_releases(graph, state, save);
+    } catch (e) {
+        if (options.atomic && !dryrun) {
+            await rollback_tags(state);
+            save(state);
         }
+
+        throw e;
     }
+
+    return state;
 }
@@ -1,73 +1,202 @@
 import _ from "lodash";
-import { abort_merge, checkout_branch, checkout_new_branch, checkout_pr, clone_repo, commit, delete_branch, force_push, get_commits, get_repos, merge_branch, normalize_repo_id, RepoId, spotless_apply, unclone_repo } from "./requests/repos";
-import { delete_dev, DevBranchStatus, get_dev_branch_status } from "./requests/branches";
-import { get_prs as get_mergeable_prs, NOT_REVERTABLE, stringify_pr, PRInfo, PullRequest } from "./requests/prs";
+import { abort_merge, checkout_branch, checkout_new_branch, checkout_pr, clone_repo, delete_branch, force_push, get_commits, fetch_repo_config, get_conflicting_files, get_ref_sha, get_repo_config, merge_branch, parse_repo_id, RepoId, spotless_apply, unclone_repo } from "./requests/repos";
+import { delete_dev, DevBranchStatus, get_branch_update_time } from "./requests/branches";
+import { fetch_dev_status, read_dev_status, write_dev_status } from "./requests/status";
+import { get_host } from "./requests/host";
+import { get_prs as get_mergeable_prs, ExcludedPR, stringify_pr, PRInfo, PullRequest } from "./requests/prs";
 import yaml from "yaml";
-import { dev_branch, dev_custom, dev_error, dryrun, logger, repos } from "./env";
+import { clear_merge_conflict, diagnose_merge_conflict, report_merge_conflict } from "./merge_conflicts";
+import { clone_scratchpad, dev_branch, dev_custom, dev_error, dryrun, logger, run_in_worker } from "./env";
+import { run_pool } from "./mmxxl_utils";
+import { get_label_policy, is_not_revertable } from "./requests/labels";
+import path from "path";
+import fs from "fs";
+
+export type DevUpdateOutcome = "updated" | "unchanged" | "deleted" | "skipped" | "failed";
+
+export type MergeFailure = {
+    /** The PR permalink or branch that could not be merged */
+    source: string;
+    files: string[];
+    error: string;
+};
+
+/** The outcome of updating a repo's dev branch */
+export type DevUpdateResult = {
+    outcome: DevUpdateOutcome;
+    default_branch: string | null;
+    included_prs: string[];
+    removed_prs: string[];
+    /** PRs that were ready for testing but were left out, because of their dependencies */
+    excluded_prs: ExcludedPR[];
+    merge_failures: MergeFailure[];
+    dependencies: string[];
+    error: string | null;
+};
+
+export function new_dev_update_result(): DevUpdateResult {
+    return {
+        outcome: "skipped",
+        default_branch: null,
+        included_prs: [],
+        removed_prs: [],
+        excluded_prs: [],
+        merge_failures: [],
+        dependencies: [],
+        error: null,
+    };
+}
+
+/** The SHA of a branch in the remote, or null if it does not exist */
+async function get_remote_sha(repo_id: RepoId, branch: string): Promise<string | null> {
+    try {
+        return await get_ref_sha(repo_id, `origin/${branch}`);
+    } catch (e) {
+        return null;
+    }
+}
+
+/** The PRs that were added to or removed from the PRs that are ready for testing since the status was stored */
+function get_pr_set_changes(status: DevBranchStatus, prs: PRInfo): string[] {
+    const permalinks = _.map(prs.prs, "permalink");
+
+    // PRs that could not be merged last time were still ready for testing, so they aren't new
+    const added = _.difference(permalinks, [...status["Included PRs"], ..._.keys(status["Unmerged PR Heads"])]);
+    const removed = _.difference(status["Included PRs"], permalinks);
+    // Dev doesn't change without them, but their conflict comments have to be removed
+    const dropped = _.difference(_.keys(status["Unmerged PR Heads"]), permalinks);
+
+    return [
+        ...(_.isEmpty(added) ? [] : [`new PRs: ${added.join(", ")}`]),
+        ...(_.isEmpty(removed) ? [] : [`merged or closed PRs: ${removed.join(", ")}`]),
+        ...(_.isEmpty(dropped) ? [] : [`unmerged PRs that are no longer ready for testing: ${dropped.join(", ")}`]),
+    ];
+}
+
+/**
+ * The PRs that could not be merged when the status was stored, which are the ones that can have a merge conflict comment.
+ * Returns null if that is unknown, because there is no status or it was written by an older version.
+ */
+function get_failed_prs(status: DevBranchStatus | null): string[] | null {
+    if (!status || !status["Unmerged PR Heads"]) return null;
+
+    // PRs that were left out because of their dependencies were never merged, so they didn't fail to
+    return _.difference(_.keys(status["Unmerged PR Heads"]), _.keys(status["Excluded PRs"]));
+}
+
+/** The SHAs of the branches that dev is built from, as they are now */
+type DevSources = {
+    default_sha: string | null;
+    custom_sha: string | null;
+};
+
+/**
+ * What changed since the status was stored, compared by the exact SHAs that dev was built from (so that label edits and comments don't cause rebuilds).
+ * Returns null for statuses written by older versions, which don't have the SHAs. `dev_update` is only used for PRs whose head SHA is unknown.
+ */
+function get_status_changes(status: DevBranchStatus, prs: PRInfo, default_branch: string, sources: DevSources, dev_update: Date): string[] | null {
+    if (!status["PR Heads"] || status["Default Branch SHA"] === undefined) return null;
+
+    const heads = { ...status["PR Heads"], ...status["Unmerged PR Heads"] };
+
+    const changes = get_pr_set_changes(status, prs);
 
-async function needs_update(repo_id: RepoId, prs: PRInfo, default_branch: string) {
+    if (sources.default_sha !== status["Default Branch SHA"]) {
+        changes.push(`changes in ${default_branch} since ${dev_branch} was last updated`);
+    }
+
+    if (sources.custom_sha !== (status["Custom Branch SHA"] || null)) {
+        changes.push(`changes in the ${dev_custom} branch`);
+    }
+
+    for (const pr of prs.prs) {
+        if (!heads[pr.permalink]) continue;
+
+        if (pr.headRefOid ? pr.headRefOid !== heads[pr.permalink] : new Date(pr.updatedAt) > dev_update) {
+            changes.push(`changes in ${pr.permalink} (head: ${pr.headRefOid || "unknown"}, previously ${heads[pr.permalink]})`);
+        }
+    }
+
+    return changes;
+}
+
+export async function needs_update(repo_id: RepoId, prs: PRInfo, default_branch: string, result: DevUpdateResult = new_dev_update_result()) {
     const dev_update = _.get(await get_commits(repo_id, `${dev_branch} -n 1`), [0, "committer_date"], null);
     const dev_custom_update = _.get(await get_commits(repo_id, `${dev_custom} -n 1`), [0, "committer_date"], null);
 
     if (prs.prs.length == 0 && !dev_custom_update) {
         if (dev_update) {
             logger.info(`No experimental changes are available for this repository: deleting the ${dev_branch} branch`);
+
+            for (const permalink of get_failed_prs(await read_dev_status(repo_id, dev_branch)) || []) {
+                await clear_merge_conflict(permalink);
+            }
+
             if (!dryrun) await delete_dev(repo_id);
             logger.info(`Deleted ${dev_branch} branch`);
+            result.outcome = "deleted";
             return false;
         }
 
         logger.info(`No experimental changes are available for this repository and this repository doesn't have a ${dev_custom} branch: skipping it`);
+        result.outcome = "skipped";
         return false;
     }
 
     if (dev_update) {
-        const commits = await get_commits(repo_id, `${dev_branch} -n 5`);
-
-        const status = get_dev_branch_status(commits);
+        const status = await read_dev_status(repo_id, dev_branch);
 
         var needs_update = false;
 
-        if (status) {
-            const permalinks = _.map(prs.prs, "permalink");
+        if (!status) {
+            logger.info(`${dev_branch} does not have a status, so what it contains is unknown: it will be rebuilt`);
+            needs_update = true;
+        }
 
-            const added = _.difference(status["Included PRs"], permalinks);
-            const removed = _.difference(permalinks, status["Included PRs"]);
+        const sources: DevSources = {
+            default_sha: await get_remote_sha(repo_id, default_branch),
+            custom_sha: await get_remote_sha(repo_id, dev_custom),
+        };
 
-            if (!_.isEmpty(added)) {
-                logger.info(`Detected new PRs: ${added.join(", ")}`);
-                needs_update = true;
+        const changes = status && get_status_changes(status, prs, default_branch, sources, dev_update);
+
+        if (changes) {
+            for (const change of changes) {
+                logger.info(`Detected ${change}`);
             }
 
-            if (!_.isEmpty(removed)) {
-                logger.info(`Detected merged or closed PRs: ${removed.join(", ")}`);
+            needs_update = changes.length > 0;
+        } else if (status) {
+            for (const change of get_pr_set_changes(status, prs)) {
+                logger.info(`Detected ${change}`);
                 needs_update = true;
             }
-        }
 
-        const commits_to_master = await get_commits(repo_id, `${dev_branch}..${default_branch}`);
+            const commits_to_master = await get_commits(repo_id, `${dev_branch}..${default_branch}`);
 
-        logger.info(`There have been ${commits_to_master.length} commits to ${default_branch} since ${dev_branch} was last updated`);
+            logger.info(`There have been ${commits_to_master.length} commits to ${default_branch} since ${dev_branch} was last updated`);
 
-        if (commits_to_master.length > 0) {
-            needs_update = true;
-        }
-
-        for (const pr of prs.prs) {
-            const lastUpdate = new Date(pr.updatedAt);
-            if (lastUpdate > dev_update) {
+            if (commits_to_master.length > 0) {
                 needs_update = true;
-                logger.info(`Detected changes in https://github.com/${repo_id}/pull/${pr.number} (last updated at ${lastUpdate})`);
             }
-        }
 
-        if (dev_custom_update && dev_update < dev_custom_update) {
-            logger.info(`Detected changes in the ${dev_custom} branch (last updated at ${dev_custom_update})`);
+            for (const pr of prs.prs) {
+                const lastUpdate = new Date(pr.updatedAt);
+                if (lastUpdate > dev_update) {
+                    needs_update = true;
+                    logger.info(`Detected changes in https://github.com/${repo_id}/pull/${pr.number} (last updated at ${lastUpdate})`);
+                }
+            }
+
+            if (dev_custom_update && dev_update < dev_custom_update) {
+                logger.info(`Detected changes in the ${dev_custom} branch (last updated at ${dev_custom_update})`);
+            }
         }
 
         if (!needs_update) {
             logger.info(`No PRs have been updated: ${dev_branch} will not be updated`);
 
+            result.outcome = "unchanged";
             return false;
         }
     }
@@ -75,14 +204,69 @@ async function needs_update(repo_id: RepoId, prs: PRInfo, default_branch: string
     return true;
 }
 
-async function merge_prs_into_dev(repo_id: RepoId) {
-    await unclone_repo(repo_id);
+/**
+ * Checks whether dev is up to date using only the host's API, so that repos where nothing moved don't have to be cloned.
+ * Returns false whenever that can't be told without a clone: the repo is then cloned and checked with needs_update as usual.
+ */
+export async function is_unchanged_remotely(repo_id: RepoId, result: DevUpdateResult = new_dev_update_result()): Promise<boolean> {
+    const repo_info = parse_repo_id(repo_id);
+
+    try {
+        const dev_update = await get_branch_update_time(repo_id, dev_branch);
+
+        if (!dev_update) return false;
+
+        const status = await fetch_dev_status(repo_id, dev_branch);
+
+        if (!status) return false;
+
+        const default_branch = await get_host().get_default_branch(repo_info);
+
+        const sources: DevSources = {
+            default_sha: await get_host().get_ref(repo_info, `refs/heads/${default_branch}`),
+            custom_sha: await get_host().get_ref(repo_info, `refs/heads/${dev_custom}`),
+        };
+
+        // Saves fetching the PRs when the default branch moved, which is the most common change
+        if (!sources.default_sha || sources.default_sha !== status["Default Branch SHA"]) return false;
+
+        const prs = await get_mergeable_prs(repo_id, default_branch, await fetch_repo_config(repo_id, sources.default_sha));
 
+        // Deleting dev is left to the full check
+        if (prs.prs.length == 0) return false;
+
+        const changes = get_status_changes(status, prs, default_branch, sources, dev_update);
+
+        if (!changes || changes.length > 0) return false;
+
+        logger.info(`Nothing changed since ${dev_branch} was last updated: ${dev_branch} will not be updated`);
+
+        result.default_branch = default_branch;
+        result.excluded_prs.push(...prs.excluded);
+        result.outcome = "unchanged";
+
+        return true;
+    } catch (e) {
+        logger.warn(`Could not check ${repo_id} for changes without cloning it: ${e}`);
+        return false;
+    }
+}
+
+/** Rebuilds the dev branch of a repo. The result is filled in as the update progresses, so that it is still meaningful if this throws. */
+export async function merge_prs_into_dev(repo_id: RepoId, result: DevUpdateResult = new_dev_update_result()): Promise<DevUpdateResult> {
     logger.info(`Checking for changes in https://github.com/${repo_id}`);
 
+    if (await is_unchanged_remotely(repo_id, result)) {
+        return result;
+    }
+
+    await unclone_repo(repo_id);
+
     try {
         const { default_branch } = await clone_repo(repo_id);
 
+        result.default_branch = default_branch;
+
         if (await checkout_branch(repo_id, dev_branch)) {
             await checkout_branch(repo_id, "-");
         }
@@ -91,19 +275,27 @@ async function merge_prs_into_dev(repo_id: RepoId) {
 
         logger.info(`${repo_id} has ${prs.prs.length} PR(s) ready for testing`);
 
-        if (!await needs_update(repo_id, prs, default_branch)) {
-            return;
+        result.excluded_prs.push(...prs.excluded);
+
+        if (!await needs_update(repo_id, prs, default_branch, result)) {
+            return result;
         }
 
         const previously_included_prs: string[] = [];
+        var previously_failed_prs: string[] | null = null;
     
         if (await checkout_branch(repo_id, dev_branch)) {
-            const status = get_dev_branch_status(await get_commits(repo_id, `${dev_branch} -n 5`));
+            const status = await read_dev_status(repo_id, dev_branch);
 
             if (status) {
                 status["Included PRs"].forEach(x => previously_included_prs.push(x));
             }
+
+            previously_failed_prs = get_failed_prs(status);
         }
+
+        /** Only PRs that failed last time can have a comment to remove. If that is unknown, every PR is checked. */
+        const may_have_conflict_comment = (permalink: string) => previously_failed_prs === null || previously_failed_prs.includes(permalink);
     
         await checkout_branch(repo_id, default_branch);
     
@@ -111,13 +303,44 @@ async function merge_prs_into_dev(repo_id: RepoId) {
         await checkout_new_branch(repo_id, dev_branch);
     
         logger.info(`Merging ${prs.prs.length} PRs`);
+
+        const label_policy = get_label_policy(await get_repo_config(repo_id));
     
         const merged: PullRequest[] = [];
+        /** The head SHA of every merged PR */
+        const heads: {[permalink: string]: string} = {};
+        /** PRs that were not merged, so that the PRs that depend on them can be left out too */
+        const unmerged = new Set<string>();
+        /** The head SHA of every PR that was not merged, so that it's only retried once it changes */
+        const unmerged_heads: {[permalink: string]: string} = {};
 
         for (const pr of prs.prs) {
+            const unmerged_dep = _.find(pr.dependencies, dep => unmerged.has(stringify_pr(dep)));
+
+            if (unmerged_dep) {
+                const reason = `depends on ${stringify_pr(unmerged_dep)}, which could not be merged`;
+
+                logger.error(`Not merging ${pr.permalink}: it ${reason}`);
+
+                result.excluded_prs.push({ pr: pr.permalink, reason });
+                unmerged.add(pr.permalink);
+
+                if (pr.headRefOid) unmerged_heads[pr.permalink] = pr.headRefOid;
+
+                if (is_not_revertable(pr.labels, label_policy) && _.includes(previously_included_prs, pr.permalink)) {
+                    logger.error(`Experimental tagging will be cancelled since non-revertable PR ${pr.permalink} could not be merged into ${dev_branch}: the ${dev_branch} branch prior to this merge will be pushed to ${dev_error}`);
+                    if (!dryrun) await force_push(repo_id, `${dev_branch}:${dev_error}`);
+                    throw new Error(`Could not merge non-revertable PR into ${dev_branch}`);
+                }
+
+                continue;
+            }
+
             logger.info(`Checking out ${pr.permalink}`);
         
             await checkout_pr(repo_id, pr.permalink);
+
+            const head = await get_ref_sha(repo_id, "HEAD");
     
             await checkout_branch(repo_id, dev_branch);
     
@@ -126,18 +349,34 @@ async function merge_prs_into_dev(repo_id: RepoId) {
             
                 await merge_branch(repo_id, "-", `Merge '${pr.title}' into ${dev_branch}`);
                 merged.push(pr);
+                heads[pr.permalink] = head;
+
+                if (may_have_conflict_comment(pr.permalink)) await clear_merge_conflict(pr.permalink);
             } catch (e) {
                 logger.error(`Could not merge ${pr.permalink} into ${dev_branch}: ${e}`);
+
+                const conflict = await diagnose_merge_conflict(repo_id, pr, merged, default_branch);
                 await abort_merge(repo_id);
+
+                await report_merge_conflict(conflict);
+
+                result.merge_failures.push({ source: pr.permalink, files: conflict.files, error: `${e}` });
+                unmerged.add(pr.permalink);
+                unmerged_heads[pr.permalink] = head;
     
-                if (_.includes(pr.labels, NOT_REVERTABLE) && _.includes(previously_included_prs, pr.permalink)) {
+                if (is_not_revertable(pr.labels, label_policy) && _.includes(previously_included_prs, pr.permalink)) {
                     logger.error(`Experimental tagging will be cancelled since non-revertable PR ${pr.permalink} could not be merged into ${dev_branch}: the ${dev_branch} branch prior to this merge will be pushed to ${dev_error}`);
-                    if (!dryrun) await force_push(repo_id, `${dev_error}`);
+                    if (!dryrun) await force_push(repo_id, `${dev_branch}:${dev_error}`);
                     throw new Error(`Could not merge non-revertable PR into ${dev_branch}`);
                 }
             }
         }
     
+        // PRs that failed last time and are no longer ready for testing (closed, or their label was removed) won't be retried
+        for (const permalink of _.difference(previously_failed_prs || [], _.map(prs.prs, "permalink"))) {
+            await clear_merge_conflict(permalink);
+        }
+
         logger.info(`Checking out ${dev_custom}`);
         
         if (await checkout_branch(repo_id, dev_custom)) {
@@ -150,8 +389,10 @@ async function merge_prs_into_dev(repo_id: RepoId) {
             } catch (e) {
                 logger.error(`Could not merge ${dev_custom} into ${dev_branch}: ${e}`);
 
+                result.merge_failures.push({ source: dev_custom, files: await get_conflicting_files(repo_id), error: `${e}` });
+
                 logger.error(`Experimental tagging will be cancelled since ${dev_custom} could not be merged into ${dev_branch}: the ${dev_branch} branch prior to this merge will be pushed to ${dev_error}`);
-                if (!dryrun) await force_push(repo_id, `${dev_error}`);
+                if (!dryrun) await force_push(repo_id, `${dev_branch}:${dev_error}`);
                 throw new Error(`Could not merge ${dev_custom} into ${dev_branch}`);
             }
         } else {
@@ -164,23 +405,94 @@ async function merge_prs_into_dev(repo_id: RepoId) {
             "Included PRs": _.map(merged, "permalink"),
             "Removed PRs": _.difference(previously_included_prs, _.map(merged, "permalink")),
             "Dependencies": _.map(prs.dependencies, stringify_pr),
+            "Excluded PRs": _.fromPairs(_.map(result.excluded_prs, e => [e.pr, e.reason])),
+            "PR Heads": heads,
+            "Unmerged PR Heads": unmerged_heads,
+            "Default Branch SHA": await get_remote_sha(repo_id, default_branch) || undefined,
+            "Custom Branch SHA": await get_remote_sha(repo_id, dev_custom),
         };
 
-        // Scramble the commit message with base64 to prevent github from spamming PRs with links to these commits
-        await commit(repo_id, "Dev Branch Status", Buffer.from(yaml.stringify(state)).toString('base64'));
-
         if (!dryrun) await force_push(repo_id, dev_branch);
+
+        await write_dev_status(repo_id, dev_branch, state);
+
+        result.outcome = "updated";
+        result.included_prs = state["Included PRs"];
+        result.removed_prs = state["Removed PRs"];
+        result.dependencies = state["Dependencies"];
+
+        return result;
+    } catch (e) {
+        result.outcome = "failed";
+        result.error = `${e}`;
+        throw e;
     } finally {
         if (!dryrun) await unclone_repo(repo_id);
     }
 }
 
-const repo_ids = repos.length === 0 ? await get_repos() : _.map(repos, normalize_repo_id);
+export type UpdateDevResults = {[repo: string]: DevUpdateResult};
+
+/**
+ * Merges every PR that is ready for testing into the dev branch of each given repo. Each repo's result is added to `results` as it is processed.
+ * With more than one job, repos are processed concurrently: each worker gets its own scratchpad and prefixes its log lines with the repo.
+ */
+export async function update_dev(repo_ids: RepoId[], results: UpdateDevResults = {}, jobs: number = 1): Promise<UpdateDevResults> {
+    logger.debug(`Updating repos: ${repo_ids.map(x => `"${x}"`).join(", ")}`);
 
-logger.debug(`Updating repos: ${repo_ids.map(x => `"${x}"`).join(", ")}`);
+    logger.info(`Updating ${repo_ids.length} repos${jobs > 1 ? ` with ${jobs} jobs` : ""}`);
+
+    try {
+        await run_pool(repo_ids, jobs, async (repo_id, worker) => {
+            results[repo_id] = new_dev_update_result();
 
-logger.info(`Updating ${repo_ids.length} repos`);
+            if (jobs > 1) {
+                const scratchpad = path.join(clone_scratchpad, `worker-${worker}`);
+                fs.mkdirSync(scratchpad, { recursive: true });
+
+                await run_in_worker(repo_id, scratchpad, () => merge_prs_into_dev(repo_id, results[repo_id]));
+            } else {
+                await merge_prs_into_dev(repo_id, results[repo_id]);
+            }
+        });
+    } finally {
+        logger.info(yaml.stringify({
+            "Dev branch updates": _.mapValues(results, r => r.error ? `${r.outcome}: ${r.error}` : r.outcome),
+        }));
+    }
+
+    return results;
+}
+
+export type MergePlan = {
+    [repo: string]: {
+        ["PRs"]: string[];
+        ["Dependencies"]: string[];
+        ["Excluded PRs"]: {[pr: string]: string};
+    };
+};
+
+/** Finds the PRs that update_dev would merge into each repo's dev branch (in merge order), without changing anything */
+export async function plan_update_dev(repo_ids: RepoId[]): Promise<MergePlan> {
+    const plan: MergePlan = {};
+
+    for (const repo_id of repo_ids) {
+        await unclone_repo(repo_id);
+
+        try {
+            const { default_branch } = await clone_repo(repo_id);
+
+            const prs = await get_mergeable_prs(repo_id, default_branch);
+
+            plan[repo_id] = {
+                "PRs": _.map(prs.prs, "permalink"),
+                "Dependencies": _.map(prs.dependencies, stringify_pr),
+                "Excluded PRs": _.fromPairs(_.map(prs.excluded, e => [e.pr, e.reason])),
+            };
+        } finally {
+            await unclone_repo(repo_id);
+        }
+    }
 
-for (const repo_id of repo_ids) {
-    await merge_prs_into_dev(repo_id);
+    return plan;
 }
@@ -0,0 +1,30 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import yaml from "yaml";
+import { get_dev_branch_status } from "../src/requests/branches";
+import { Commit } from "../src/requests/repos";
+
+function status_commit(status: any): Commit {
+    return {
+        committer_name: "MergeMasterXXL",
+        subject: "Dev Branch Status",
+        message: Buffer.from(yaml.stringify(status)).toString("base64"),
+    } as Commit;
+}
+
+describe("get_dev_branch_status", () => {
+    it("reads statuses without SHAs", () => {
+        const status = get_dev_branch_status([status_commit({ "Included PRs": ["https://github.com/GTNewHorizons/Example/pull/1"] })]);
+
+        assert.deepEqual(status?.["Included PRs"], ["https://github.com/GTNewHorizons/Example/pull/1"]);
+        assert.deepEqual(status?.["Removed PRs"], []);
+        assert.equal(status?.["PR Heads"], undefined);
+    });
+
+    it("skips commits made after the status", () => {
+        const other = { committer_name: "someone", subject: "Update dependencies", message: "" } as Commit;
+        const status = get_dev_branch_status([other, status_commit({ "Included PRs": [], "Default Branch SHA": "abc" })]);
+
+        assert.equal(status?.["Default Branch SHA"], "abc");
+    });
+});
@@ -0,0 +1,83 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ChangelogPR, format_changelog, get_changelog_path } from "../src/changelog";
+
+const A = "GTNewHorizons/A";
+
+function pr(number: number, partial: Partial<ChangelogPR> = {}): ChangelogPR {
+    return {
+        permalink: `https://github.com/GTNewHorizons/A/pull/${number}`,
+        number,
+        title: `PR ${number}`,
+        author: null,
+        labels: [],
+        cross_repo_dependencies: [],
+        ...partial,
+    };
+}
+
+describe("format_changelog", () => {
+    it("lists the title, number, author and labels of each PR", () => {
+        const text = format_changelog({
+            repo_id: A,
+            tag: "1.0.1",
+            branch: "master",
+            master_prs: [pr(1, { author: "someone", labels: ["bug", "major change"] })],
+            experimental_prs: [],
+            tag_overrides: {},
+        });
+
+        assert.match(text, /^# A 1\.0\.1\n/);
+        assert.ok(text.includes("- PR 1 ([#1](https://github.com/GTNewHorizons/A/pull/1)) by @someone `bug` `major change`"));
+        assert.ok(!text.includes("Experimental-only changes"));
+    });
+
+    it("splits master changes from experimental-only ones for dev tags", () => {
+        const text = format_changelog({
+            repo_id: A,
+            tag: "1.0.2-pre",
+            branch: "dev",
+            master_prs: [],
+            experimental_prs: [pr(2)],
+            tag_overrides: {},
+        });
+
+        assert.match(text, /## Changes in master\n\nNo PRs\.\n/);
+        assert.match(text, /## Experimental-only changes\n\n- PR 2 /);
+    });
+
+    it("flags cross-repo dependencies", () => {
+        const text = format_changelog({
+            repo_id: A,
+            tag: "1.0.2-pre",
+            branch: "dev",
+            master_prs: [],
+            experimental_prs: [pr(2, {
+                cross_repo_dependencies: ["https://github.com/GTNewHorizons/B/pull/3", "https://github.com/Someone/C/pull/4"],
+            })],
+            tag_overrides: {},
+        });
+
+        assert.ok(text.includes("  - :warning: Requires [B#3](https://github.com/GTNewHorizons/B/pull/3)"));
+        assert.ok(text.includes("  - :warning: Requires [Someone/C#4](https://github.com/Someone/C/pull/4)"));
+    });
+
+    it("lists the dependency tags", () => {
+        const text = format_changelog({
+            repo_id: A,
+            tag: "1.0.2-pre",
+            branch: "dev",
+            master_prs: [],
+            experimental_prs: [],
+            tag_overrides: { "B": "1.0.4-pre" },
+        });
+
+        assert.match(text, /## Dependency tags\n\n- B: 1\.0\.4-pre\n/);
+    });
+});
+
+describe("get_changelog_path", () => {
+    it("names the file after the repo and tag", () => {
+        assert.equal(get_changelog_path("/out", A, "1.0.1-pre"), "/out/GTNewHorizons/A/1.0.1-pre.md");
+    });
+});
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import { format_conflict_matrix, get_conflict_matrix } from "../src/conflict_matrix";
+import { get_repo_path } from "../src/requests/repos";
+import { commit_files, create_repo, create_workspace, destroy_workspace, get_branches, open_pr, Workspace } from "./harness";
+
+const REPO = "GTNewHorizons/Example";
+
+function pr(number: number) {
+    return `https://github.com/GTNewHorizons/Example/pull/${number}`;
+}
+
+describe("conflicts", () => {
+    var ws: Workspace;
+
+    beforeEach(() => {
+        ws = create_workspace();
+        create_repo(ws, REPO, { "a.txt": "a\n", "b.txt": "b\n" });
+    });
+
+    afterEach(() => {
+        destroy_workspace(ws);
+    });
+
+    it("reports every pair of conflicting PRs", async () => {
+        commit_files(ws, REPO, "feature-1", { "a.txt": "one\n" });
+        commit_files(ws, REPO, "feature-2", { "a.txt": "two\n" });
+        commit_files(ws, REPO, "feature-3", { "b.txt": "three\n" });
+        commit_files(ws, REPO, "feature-4", { "a.txt": "four\n", "b.txt": "four\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature-1" });
+        open_pr(ws, REPO, { number: 2, head: "feature-2" });
+        open_pr(ws, REPO, { number: 3, head: "feature-3" });
+        open_pr(ws, REPO, { number: 4, head: "feature-4" });
+
+        const matrix = await get_conflict_matrix(REPO);
+
+        assert.deepEqual(matrix.prs, [pr(1), pr(2), pr(3), pr(4)]);
+        assert.deepEqual(matrix.base_conflicts, {});
+        assert.deepEqual(matrix.conflicts, [
+            { first: pr(1), second: pr(2), files: ["a.txt"] },
+            { first: pr(1), second: pr(4), files: ["a.txt"] },
+            { first: pr(2), second: pr(4), files: ["a.txt"] },
+            { first: pr(3), second: pr(4), files: ["b.txt"] },
+        ]);
+    });
+
+    it("reports PRs that conflict with the default branch separately", async () => {
+        commit_files(ws, REPO, "feature-1", { "a.txt": "one\n" });
+        commit_files(ws, REPO, "feature-2", { "b.txt": "two\n" });
+        commit_files(ws, REPO, "master", { "a.txt": "master\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature-1" });
+        open_pr(ws, REPO, { number: 2, head: "feature-2" });
+
+        const matrix = await get_conflict_matrix(REPO);
+
+        assert.deepEqual(matrix.base_conflicts, { [pr(1)]: ["a.txt"] });
+        assert.deepEqual(matrix.conflicts, []);
+        assert.match(format_conflict_matrix(matrix), /^1  B    https:\/\/github.com\/GTNewHorizons\/Example\/pull\/1$/m);
+    });
+
+    it("cleans up the scratch branch", async () => {
+        commit_files(ws, REPO, "feature-1", { "a.txt": "one\n" });
+        commit_files(ws, REPO, "feature-2", { "a.txt": "two\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature-1" });
+        open_pr(ws, REPO, { number: 2, head: "feature-2" });
+
+        await get_conflict_matrix(REPO);
+
+        assert.ok(!get_branches(ws, REPO).includes("mmxxl-conflict-check"));
+        assert.ok(!fs.existsSync(get_repo_path(REPO)));
+    });
+});
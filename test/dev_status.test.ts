@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { format_dev_status_table, get_repo_dev_status } from "../src/dev_status";
+import { update_dev } from "../src/update_dev";
+import { commit_files, create_repo, create_workspace, destroy_workspace, open_pr, Workspace } from "./harness";
+
+const REPO = "GTNewHorizons/Example";
+
+describe("status", () => {
+    var ws: Workspace;
+
+    beforeEach(() => {
+        ws = create_workspace();
+        create_repo(ws, REPO, { "a.txt": "a\n" });
+    });
+
+    afterEach(() => {
+        destroy_workspace(ws);
+    });
+
+    it("reports repos without a dev branch", async () => {
+        const status = await get_repo_dev_status(REPO);
+
+        assert.equal(status.has_dev, false);
+        assert.deepEqual(status.included_prs, []);
+    });
+
+    it("reports what dev contains and how far behind master it is", async () => {
+        create_repo(ws, "GTNewHorizons/Other");
+        commit_files(ws, "GTNewHorizons/Other", "other", { "other.txt": "other\n" });
+        open_pr(ws, "GTNewHorizons/Other", { number: 4, head: "other" });
+
+        commit_files(ws, REPO, "feature", { "feature.txt": "feature\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature", body: "depends on: GTNewHorizons/Other#4" });
+
+        await update_dev([REPO]);
+
+        commit_files(ws, REPO, "master", { "b.txt": "b\n" });
+
+        const status = await get_repo_dev_status(REPO);
+
+        assert.equal(status.has_dev, true);
+        assert.equal(status.default_branch, "master");
+        assert.equal(status.behind_by, 1);
+        assert.deepEqual(status.included_prs, ["https://github.com/GTNewHorizons/Example/pull/1"]);
+        assert.deepEqual(status.dependencies, ["https://github.com/GTNewHorizons/Other/pull/4"]);
+        assert.ok(status.updated_at);
+        assert.equal(status.error, null);
+
+        const [header, , row] = format_dev_status_table([status]).split("\n");
+
+        assert.match(header, /^Repo\s+Updated\s+Behind\s+Included PRs/);
+        assert.match(row, /^GTNewHorizons\/Example\s+\S+\s+1\s+#1\s+Other#4$/);
+    });
+});
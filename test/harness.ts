@@ -0,0 +1,163 @@
+import _ from "lodash";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import child_process from "child_process";
+import { configure, EnvOptions } from "../src/env";
+import { set_host } from "../src/requests/host";
+import { create_fake_host, FakeHost, FakeHostFixture, FakePR } from "../src/requests/fake_host";
+import { RepoId } from "../src/requests/repos";
+import { fetch_dev_status } from "../src/requests/status";
+
+// Builds local bare repos and serves them through the fake host, so that the pipelines can be ran without GitHub
+
+const GIT_ENV = {
+    ...process.env,
+    GIT_AUTHOR_NAME: "Test Author",
+    GIT_AUTHOR_EMAIL: "author@example.com",
+    GIT_COMMITTER_NAME: "Test Author",
+    GIT_COMMITTER_EMAIL: "author@example.com",
+};
+
+export type Workspace = {
+    dir: string;
+    fixture: FakeHostFixture;
+    host: FakeHost;
+};
+
+export function git(cwd: string, args: string): string {
+    return child_process.execSync(`git ${args}`, { cwd, env: GIT_ENV, stdio: ["ignore", "pipe", "pipe"] }).toString().trim();
+}
+
+export function create_workspace(options: EnvOptions = {}): Workspace {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mmxxl-test-"));
+
+    fs.mkdirSync(path.join(dir, "clones"));
+
+    const fixture: FakeHostFixture = {
+        repos_path: path.join(dir, "repos"),
+        repos: {},
+    };
+
+    const host = create_fake_host(fixture);
+
+    configure({ scratchpad: path.join(dir, "clones"), log_level: "silent", ...options });
+    set_host(host);
+
+    return { dir, fixture, host };
+}
+
+export function destroy_workspace(ws: Workspace) {
+    fs.rmSync(ws.dir, { recursive: true, force: true });
+}
+
+function get_work_path(ws: Workspace, repo_id: RepoId) {
+    return path.join(ws.dir, "work", repo_id);
+}
+
+export function get_bare_path(ws: Workspace, repo_id: RepoId) {
+    return path.join(ws.fixture.repos_path, `${repo_id}.git`);
+}
+
+/** Creates a repo with a few commits on master (tagged 1.0.0) and returns the path of its working copy */
+export function create_repo(ws: Workspace, repo_id: RepoId, files: {[file: string]: string} = {}): string {
+    const work = get_work_path(ws, repo_id);
+    const bare = get_bare_path(ws, repo_id);
+
+    fs.mkdirSync(work, { recursive: true });
+    fs.mkdirSync(bare, { recursive: true });
+
+    git(bare, "init -q --bare -b master");
+    git(work, "init -q -b master");
+    git(work, `remote add origin ${bare}`);
+
+    write_files(work, { "README.md": "readme\n", ...files });
+    git(work, "add -A");
+    git(work, "commit -q -m init");
+
+    // Enough history for the readers that look at the last few commits of a branch
+    for (var i = 0; i < 5; i++) {
+        git(work, `commit -q --allow-empty -m 'history ${i}'`);
+    }
+
+    git(work, "tag 1.0.0");
+
+    ws.fixture.repos[repo_id] = { prs: [] };
+
+    publish(ws, repo_id);
+
+    return work;
+}
+
+export function write_files(work: string, files: {[file: string]: string}) {
+    for (const [file, content] of _.toPairs(files)) {
+        fs.mkdirSync(path.dirname(path.join(work, file)), { recursive: true });
+        fs.writeFileSync(path.join(work, file), content);
+
+        if (file === "gradlew") fs.chmodSync(path.join(work, file), 0o755);
+    }
+}
+
+/** Commits the files onto a branch of the working copy, creating the branch from master if needed */
+export function commit_files(ws: Workspace, repo_id: RepoId, branch: string, files: {[file: string]: string}, message: string = `update ${branch}`) {
+    const work = get_work_path(ws, repo_id);
+
+    const exists = git(work, `branch --list ${branch}`).length > 0;
+
+    git(work, exists ? `checkout -q ${branch}` : `checkout -q -b ${branch} master`);
+
+    write_files(work, files);
+
+    git(work, "add -A");
+    git(work, `commit -q -m '${message}'`);
+    git(work, "checkout -q master");
+
+    publish(ws, repo_id);
+}
+
+/** Pushes every branch and tag of the working copy to the bare repo */
+export function publish(ws: Workspace, repo_id: RepoId) {
+    const work = get_work_path(ws, repo_id);
+
+    git(work, "push -q -f origin --all");
+    git(work, "push -q -f origin --tags");
+}
+
+/** Adds an open PR for an existing branch */
+export function open_pr(ws: Workspace, repo_id: RepoId, pr: Partial<FakePR> & { number: number, head: string }) {
+    ws.fixture.repos[repo_id].prs?.push({
+        title: `PR ${pr.number}`,
+        labels: ["testing on zeta"],
+        ...pr,
+    });
+}
+
+/** Squash-merges a PR into master and marks it as merged */
+export function merge_pr(ws: Workspace, repo_id: RepoId, number: number) {
+    const work = get_work_path(ws, repo_id);
+    const pr = _.find(ws.fixture.repos[repo_id].prs, { number }) as FakePR;
+
+    git(work, `merge -q --squash ${pr.head}`);
+    git(work, `commit -q -m '${pr.title} (#${number})'`);
+
+    pr.merged = true;
+
+    publish(ws, repo_id);
+}
+
+export function get_branches(ws: Workspace, repo_id: RepoId): string[] {
+    return _.map(git(get_bare_path(ws, repo_id), "branch --format='%(refname:short)'").split("\n"), _.trim);
+}
+
+export function get_tags(ws: Workspace, repo_id: RepoId): string[] {
+    return _.filter(git(get_bare_path(ws, repo_id), "tag -l").split("\n"), tag => tag.length > 0);
+}
+
+export function read_file(ws: Workspace, repo_id: RepoId, ref: string, file: string): string {
+    return git(get_bare_path(ws, repo_id), `show '${ref}:${file}'`);
+}
+
+/** The dev branch status stored in the bare repo, in either format */
+export async function get_status(repo_id: RepoId, branch: string) {
+    return fetch_dev_status(repo_id, branch);
+}
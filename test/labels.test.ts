@@ -0,0 +1,56 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { get_label_policy, label_matches, matching_labels } from "../src/requests/labels";
+import { parse_repo_config } from "../src/requests/repos";
+import { configure } from "../src/env";
+
+describe("label_matches", () => {
+    it("compares labels case insensitively", () => {
+        assert.ok(label_matches("Testing On Zeta", "testing on zeta"));
+        assert.ok(!label_matches("testing on zeta 2", "testing on zeta"));
+    });
+
+    it("treats * as a wildcard", () => {
+        assert.ok(label_matches(":construction: testing on zeta", "*testing on *"));
+        assert.ok(!label_matches("not tested", "testing *"));
+    });
+
+    it("does not treat other characters as special", () => {
+        assert.ok(!label_matches("testing on zeta", "testing.on.zeta"));
+        assert.ok(label_matches("needs (review)", "needs (review)"));
+    });
+});
+
+describe("matching_labels", () => {
+    it("excludes labels matched by a ! expression", () => {
+        const labels = ["testing on zeta", "testing on alpha", "bug"];
+
+        assert.deepEqual(matching_labels(labels, ["testing on *", "!testing on alpha"]), ["testing on zeta"]);
+    });
+
+    it("matches nothing with only exclusions", () => {
+        assert.deepEqual(matching_labels(["bug"], ["!testing *"]), []);
+    });
+});
+
+describe("get_label_policy", () => {
+    afterEach(() => {
+        configure();
+    });
+
+    it("uses the global labels when the repo has no config", () => {
+        configure({ required_labels: ["ready"] });
+
+        assert.deepEqual(get_label_policy(null).required, ["ready"]);
+        assert.deepEqual(get_label_policy(null).not_revertable, ["not revertable"]);
+    });
+
+    it("lets the repo config override the global labels", () => {
+        configure({ blocker_labels: ["wip"] });
+
+        const policy = get_label_policy(parse_repo_config("GTNewHorizons/Example", "requiredLabels: ['testing on *']\n"));
+
+        assert.deepEqual(policy.required, ["testing on *"]);
+        assert.deepEqual(policy.blockers, ["wip"]);
+    });
+});
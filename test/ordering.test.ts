@@ -0,0 +1,51 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DepGraph } from "dependency-graph";
+import { order_prs, OrderPolicy } from "../src/requests/ordering";
+import { PullRequest } from "../src/requests/prs";
+
+function pr(number: number, fields: Partial<PullRequest> = {}): PullRequest {
+    return { number, permalink: `https://github.com/GTNewHorizons/Example/pull/${number}`, labels: [], size: null, ...fields } as PullRequest;
+}
+
+function order(prs: PullRequest[], policy: Partial<OrderPolicy>, deps: [number, number][] = []): number[] {
+    const graph = new DepGraph();
+
+    for (const p of prs) graph.addNode(p.permalink);
+
+    for (const [from, to] of deps) {
+        graph.addDependency(pr(from).permalink, pr(to).permalink);
+    }
+
+    return order_prs(prs, graph, { keys: [], priority_labels: [], explicit: [], ...policy }).map(p => p.number);
+}
+
+describe("order_prs", () => {
+    it("keeps the original order without any keys", () => {
+        assert.deepEqual(order([pr(3), pr(1), pr(2)], {}), [3, 1, 2]);
+    });
+
+    it("orders by age and size", () => {
+        assert.deepEqual(order([pr(3), pr(1), pr(2)], { keys: ["age"] }), [1, 2, 3]);
+        assert.deepEqual(order([pr(1, { size: 50 }), pr(2), pr(3, { size: 5 })], { keys: ["size"] }), [3, 1, 2]);
+    });
+
+    it("puts explicit priorities before priority labels", () => {
+        const prs = [pr(1), pr(2, { labels: ["low priority"] }), pr(3, { labels: ["high priority"] }), pr(4)];
+        const policy = { keys: ["priority" as const], priority_labels: ["high *", "low *"], explicit: [pr(4).permalink] };
+
+        assert.deepEqual(order(prs, policy), [4, 3, 2, 1]);
+    });
+
+    it("uses later keys to break ties", () => {
+        const prs = [pr(3, { labels: ["urgent"] }), pr(2), pr(1, { labels: ["urgent"] })];
+
+        assert.deepEqual(order(prs, { keys: ["priority", "age"], priority_labels: ["urgent"] }), [1, 3, 2]);
+    });
+
+    it("never puts a PR before its dependencies", () => {
+        const prs = [pr(1), pr(2, { labels: ["urgent"] }), pr(3)];
+
+        assert.deepEqual(order(prs, { keys: ["priority"], priority_labels: ["urgent"] }, [[2, 3]]), [3, 2, 1]);
+    });
+});
@@ -0,0 +1,84 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parse_dependencies, parse_dependency, short_pr, stringify_pr } from "../src/requests/prs";
+
+const REPO = { owner: "GTNewHorizons", repo: "GT5-Unofficial" };
+
+function deps(body: string) {
+    return parse_dependencies(REPO, body).map(ref => ref.pr ? stringify_pr(ref.pr) : `invalid: ${ref.text}`);
+}
+
+describe("parse_dependency", () => {
+    it("parses links and references", () => {
+        assert.equal(stringify_pr(parse_dependency(REPO, "https://github.com/GTNewHorizons/NewHorizonsCoreMod/pull/12")!), "https://github.com/GTNewHorizons/NewHorizonsCoreMod/pull/12");
+        assert.equal(stringify_pr(parse_dependency(REPO, "GTNewHorizons/NewHorizonsCoreMod#12")!), "https://github.com/GTNewHorizons/NewHorizonsCoreMod/pull/12");
+        assert.equal(stringify_pr(parse_dependency(REPO, "#12")!), "https://github.com/GTNewHorizons/GT5-Unofficial/pull/12");
+    });
+
+    it("resolves Repo#123 against the owner", () => {
+        assert.equal(stringify_pr(parse_dependency(REPO, "NewHorizonsCoreMod#12")!), "https://github.com/GTNewHorizons/NewHorizonsCoreMod/pull/12");
+    });
+
+    it("unwraps markdown links", () => {
+        assert.equal(stringify_pr(parse_dependency(REPO, "[#12](https://github.com/GTNewHorizons/Other/pull/12)")!), "https://github.com/GTNewHorizons/Other/pull/12");
+        assert.equal(stringify_pr(parse_dependency(REPO, "<https://github.com/GTNewHorizons/Other/pull/12>")!), "https://github.com/GTNewHorizons/Other/pull/12");
+    });
+
+    it("rejects anything else", () => {
+        assert.equal(parse_dependency(REPO, "the other PR"), null);
+        assert.equal(parse_dependency(REPO, "https://github.com/GTNewHorizons/Other/issues/12"), null);
+    });
+});
+
+describe("parse_dependencies", () => {
+    it("accepts the original format", () => {
+        assert.deepEqual(deps("Fixes a thing\ndepends on: #12"), ["https://github.com/GTNewHorizons/GT5-Unofficial/pull/12"]);
+    });
+
+    it("accepts other keywords in any case", () => {
+        assert.deepEqual(deps("Depends On: #1\nDepends-On: #2\nREQUIRES: #3\n**Depends on:** #4"), [
+            "https://github.com/GTNewHorizons/GT5-Unofficial/pull/1",
+            "https://github.com/GTNewHorizons/GT5-Unofficial/pull/2",
+            "https://github.com/GTNewHorizons/GT5-Unofficial/pull/3",
+            "https://github.com/GTNewHorizons/GT5-Unofficial/pull/4",
+        ]);
+    });
+
+    it("accepts comma-separated lists", () => {
+        assert.deepEqual(deps("depends on: #1, Other#2, GTNewHorizons/Third#3"), [
+            "https://github.com/GTNewHorizons/GT5-Unofficial/pull/1",
+            "https://github.com/GTNewHorizons/Other/pull/2",
+            "https://github.com/GTNewHorizons/Third/pull/3",
+        ]);
+    });
+
+    it("accepts list items and task list items", () => {
+        assert.deepEqual(deps("- depends on: #1\n- [ ] depends on: #2\n* [x] Requires: [Other#3](https://github.com/GTNewHorizons/Other/pull/3)"), [
+            "https://github.com/GTNewHorizons/GT5-Unofficial/pull/1",
+            "https://github.com/GTNewHorizons/GT5-Unofficial/pull/2",
+            "https://github.com/GTNewHorizons/Other/pull/3",
+        ]);
+    });
+
+    it("reports references that can't be parsed", () => {
+        assert.deepEqual(deps("depends on: #1, the other PR"), ["https://github.com/GTNewHorizons/GT5-Unofficial/pull/1", "invalid: the other PR"]);
+    });
+
+    it("ignores lines that mention dependencies in passing", () => {
+        assert.deepEqual(deps("This depends on: nothing in particular\nRequirements: none"), []);
+    });
+
+    it("ignores Requires: lines without any PR references", () => {
+        assert.deepEqual(deps("Requires: Java 17\n- Requires: a world restart"), []);
+        assert.deepEqual(deps("Requires: #1, a world restart"), ["https://github.com/GTNewHorizons/GT5-Unofficial/pull/1", "invalid: a world restart"]);
+    });
+});
+
+describe("short_pr", () => {
+    it("shortens PRs relative to a repo", () => {
+        assert.equal(short_pr("https://github.com/GTNewHorizons/GT5-Unofficial/pull/1", REPO), "#1");
+        assert.equal(short_pr("https://github.com/GTNewHorizons/Other/pull/2", REPO), "Other#2");
+        assert.equal(short_pr("https://github.com/Someone/Other/pull/3", REPO), "Someone/Other#3");
+        assert.equal(short_pr("https://github.com/GTNewHorizons/GT5-Unofficial/pull/1"), "GT5-Unofficial#1");
+    });
+});
@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { new_report, run_with_report, RunReport } from "../src/report";
+import { update_dev } from "../src/update_dev";
+import { commit_files, create_repo, create_workspace, destroy_workspace, open_pr, Workspace } from "./harness";
+
+const REPO = "GTNewHorizons/Example";
+
+function read_report(file: string): RunReport {
+    return JSON.parse(fs.readFileSync(file).toString());
+}
+
+describe("run_with_report", () => {
+    var ws: Workspace;
+
+    beforeEach(() => {
+        ws = create_workspace();
+        create_repo(ws, REPO, { "a.txt": "a\n" });
+    });
+
+    afterEach(() => {
+        destroy_workspace(ws);
+    });
+
+    it("writes the results of a successful run", async () => {
+        commit_files(ws, REPO, "feature", { "feature.txt": "feature\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature" });
+
+        const file = path.join(ws.dir, "reports", "update-dev.json");
+        const report = new_report("update-dev", [REPO]);
+        report.update_dev = {};
+
+        await run_with_report(file, report, () => update_dev([REPO], report.update_dev));
+
+        const written = read_report(file);
+
+        assert.equal(written.success, true);
+        assert.equal(written.error, null);
+        assert.ok(written.finished_at);
+        assert.equal(written.update_dev?.[REPO].outcome, "updated");
+        assert.deepEqual(written.update_dev?.[REPO].included_prs, ["https://github.com/GTNewHorizons/Example/pull/1"]);
+    });
+
+    it("still writes the report when the run throws", async () => {
+        commit_files(ws, REPO, "feature", { "a.txt": "feature\n" });
+        commit_files(ws, REPO, "dev-mmxxl-custom", { "a.txt": "custom\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature" });
+
+        const file = path.join(ws.dir, "update-dev.json");
+        const report = new_report("update-dev", [REPO]);
+        report.update_dev = {};
+
+        await assert.rejects(run_with_report(file, report, () => update_dev([REPO], report.update_dev)), /dev-mmxxl-custom/);
+
+        const written = read_report(file);
+
+        assert.equal(written.success, false);
+        assert.match(written.error as string, /Could not merge dev-mmxxl-custom/);
+        assert.ok(written.finished_at);
+        assert.equal(written.update_dev?.[REPO].outcome, "failed");
+    });
+
+    it("does not write anything without a file", async () => {
+        await run_with_report(null, new_report("update-dev", []), async () => {});
+
+        assert.deepEqual(fs.readdirSync(ws.dir).filter(f => f.endsWith(".json")), []);
+    });
+});
@@ -0,0 +1,37 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { get_review_reason, ReviewPolicy } from "../src/requests/reviews";
+import { PullRequest } from "../src/requests/prs";
+
+const STRICT: ReviewPolicy = {
+    exclude_changes_requested: true,
+    require_approval: true,
+    require_green_checks: true,
+};
+
+function pr(fields: Partial<PullRequest>): PullRequest {
+    return { reviewDecision: null, checks: null, ...fields } as PullRequest;
+}
+
+describe("get_review_reason", () => {
+    it("accepts approved PRs with green checks", () => {
+        assert.equal(get_review_reason(pr({ reviewDecision: "APPROVED", checks: "SUCCESS" }), STRICT), null);
+    });
+
+    it("accepts PRs without a review decision or checks", () => {
+        assert.equal(get_review_reason(pr({}), STRICT), null);
+    });
+
+    it("explains why a PR is left out", () => {
+        assert.equal(get_review_reason(pr({ reviewDecision: "CHANGES_REQUESTED" }), STRICT), "has changes requested");
+        assert.equal(get_review_reason(pr({ reviewDecision: "REVIEW_REQUIRED" }), STRICT), "has not been approved");
+        assert.equal(get_review_reason(pr({ checks: "ERROR" }), STRICT), "has failing checks");
+        assert.equal(get_review_reason(pr({ checks: "PENDING" }), STRICT), "has checks that are still running");
+    });
+
+    it("only applies the enabled rules", () => {
+        const lenient: ReviewPolicy = { exclude_changes_requested: false, require_approval: false, require_green_checks: false };
+
+        assert.equal(get_review_reason(pr({ reviewDecision: "CHANGES_REQUESTED", checks: "FAILURE" }), lenient), null);
+    });
+});
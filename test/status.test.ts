@@ -0,0 +1,26 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import yaml from "yaml";
+import { parse_stored_status, STATUS_VERSION } from "../src/requests/status";
+import { configure } from "../src/env";
+
+configure({ log_level: "silent" });
+
+describe("parse_stored_status", () => {
+    it("reads the current version", () => {
+        const text = yaml.stringify({ version: STATUS_VERSION, branch: "dev", head: "abc", status: { "Included PRs": [] } });
+
+        assert.deepEqual(parse_stored_status(text)?.status, { "Included PRs": [] });
+    });
+
+    it("ignores statuses written by newer versions", () => {
+        const text = yaml.stringify({ version: STATUS_VERSION + 1, branch: "dev", head: "abc", status: { "Included PRs": [] } });
+
+        assert.equal(parse_stored_status(text), null);
+    });
+
+    it("ignores invalid statuses", () => {
+        assert.equal(parse_stored_status("not: a status"), null);
+        assert.equal(parse_stored_status("{"), null);
+    });
+});
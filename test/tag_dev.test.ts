@@ -0,0 +1,354 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import _ from "lodash";
+import fs from "fs";
+import path from "path";
+import { update_dev } from "../src/update_dev";
+import { build_tag_graph, find_resume_state, get_tag_state_path, load_tag_state, new_tag_state, save_tag_state, tag_dev, TagScan } from "../src/tag_dev";
+import { parse_pr, PRId } from "../src/requests/prs";
+import { commit_files, create_repo, create_workspace, destroy_workspace, get_bare_path, get_tags, git, merge_pr, open_pr, read_file, Workspace } from "./harness";
+
+const A = "GTNewHorizons/A";
+const B = "GTNewHorizons/B";
+
+const GRADLEW = "#!/bin/sh\nexit 0\n";
+
+function pr(link: string): PRId {
+    return parse_pr(link) as PRId;
+}
+
+describe("tag-dev", () => {
+    var ws: Workspace;
+
+    beforeEach(() => {
+        ws = create_workspace();
+
+        create_repo(ws, A, { "a.txt": "a\n", ".github/workflows/release-tags.yml": "name: release\n" });
+        create_repo(ws, B, { "gradlew": GRADLEW, "dependencies.gradle": "implementation('com.github.GTNewHorizons:A:1.0.0:dev')\n" });
+    });
+
+    afterEach(() => {
+        destroy_workspace(ws);
+    });
+
+    it("tags dev branches after their cross-repo dependencies", async () => {
+        commit_files(ws, A, "feature", { "feature.txt": "feature\n" });
+        commit_files(ws, B, "feature", { "feature.txt": "feature\n" });
+        open_pr(ws, A, { number: 1, head: "feature" });
+        open_pr(ws, B, { number: 1, head: "feature", body: "depends on: https://github.com/GTNewHorizons/A/pull/1" });
+
+        await update_dev([A, B]);
+
+        const state = await tag_dev([A, B]);
+
+        assert.ok(state.order.indexOf(`${A}:dev`) < state.order.indexOf(`${B}:dev`));
+        assert.deepEqual(state.pre_tags, { [A]: "1.0.1-pre", [B]: "1.0.1-pre" });
+        assert.deepEqual(state.tags[`${B}:dev`].tag_overrides, { "A": "1.0.1-pre" });
+        assert.equal(state.workflow_results[`${A}:dev`].success, true);
+
+        assert.ok(get_tags(ws, A).includes("1.0.1-pre"));
+        assert.match(read_file(ws, B, "1.0.1-pre", "dependencies.gradle"), /GTNewHorizons:A:1\.0\.1-pre:dev/);
+    });
+
+    it("writes a changelog for each created tag", async () => {
+        commit_files(ws, A, "fix", { "fix.txt": "fix\n" });
+        commit_files(ws, A, "feature", { "feature.txt": "feature\n" });
+        commit_files(ws, B, "feature", { "feature.txt": "feature\n" });
+        open_pr(ws, A, { number: 1, head: "fix", title: "Fix a crash", author: "fixer", labels: ["bug"] });
+        open_pr(ws, A, { number: 2, head: "feature", title: "Add a feature", author: "dev" });
+        open_pr(ws, B, { number: 1, head: "feature", body: "depends on: https://github.com/GTNewHorizons/A/pull/2" });
+
+        merge_pr(ws, A, 1);
+
+        await update_dev([A, B]);
+
+        const changelog_dir = path.join(ws.dir, "changelogs");
+        const state = await tag_dev([A, B], new_tag_state(), { changelog_dir });
+
+        assert.equal(state.tags[`${A}:master`].changelog, path.join(changelog_dir, A, "1.0.1.md"));
+
+        const master = fs.readFileSync(state.tags[`${A}:master`].changelog as string).toString();
+
+        assert.ok(master.includes("- Fix a crash ([#1](https://github.com/GTNewHorizons/A/pull/1)) by @fixer `bug`"));
+        assert.ok(!master.includes("Add a feature"));
+
+        const pre = fs.readFileSync(state.tags[`${A}:dev`].changelog as string).toString();
+
+        assert.match(pre, /## Changes in master\n\n- Fix a crash/);
+        assert.match(pre, /## Experimental-only changes\n\n- Add a feature \(\[#2\]\(https:\/\/github\.com\/GTNewHorizons\/A\/pull\/2\)\) by @dev/);
+
+        const dependant = fs.readFileSync(state.tags[`${B}:dev`].changelog as string).toString();
+
+        assert.ok(dependant.includes("  - :warning: Requires [A#2](https://github.com/GTNewHorizons/A/pull/2)"));
+    });
+
+    it("creates a release for each pushed tag and updates it when the tag is re-run", async () => {
+        commit_files(ws, A, "feature", { "feature.txt": "feature\n" });
+        commit_files(ws, B, "feature", { "feature.txt": "feature\n" });
+        open_pr(ws, A, { number: 1, head: "feature", title: "Add a feature" });
+        open_pr(ws, B, { number: 1, head: "feature", body: "depends on: https://github.com/GTNewHorizons/A/pull/1" });
+
+        await update_dev([A, B]);
+
+        const state = await tag_dev([A, B], new_tag_state(), { releases: true });
+
+        const [a_release] = ws.host.state.releases[A];
+        const [b_release] = ws.host.state.releases[B];
+
+        assert.equal(state.tags[`${A}:dev`].release, a_release.url);
+        assert.equal(a_release.tag_name, "1.0.1-pre");
+        assert.equal(a_release.prerelease, true);
+        assert.ok(a_release.body.includes("- Add a feature ([#1](https://github.com/GTNewHorizons/A/pull/1))"));
+        assert.match(b_release.body, /## Dependency tags\n\n- A: 1\.0\.1-pre\n/);
+
+        a_release.body = "outdated";
+
+        // Rolling back and re-running the target pushes the same tag again, which must not duplicate its release
+        git(get_bare_path(ws, A), "tag -d 1.0.1-pre");
+        await tag_dev([A], new_tag_state(), { releases: true });
+
+        assert.equal(ws.host.state.releases[A].length, 1);
+        assert.ok(ws.host.state.releases[A][0].body.includes("Add a feature"));
+    });
+
+    it("does not create releases unless asked to", async () => {
+        commit_files(ws, A, "feature", { "feature.txt": "feature\n" });
+        open_pr(ws, A, { number: 1, head: "feature" });
+
+        merge_pr(ws, A, 1);
+
+        const state = await tag_dev([A]);
+
+        assert.equal(state.tags[`${A}:master`].release, null);
+        assert.equal(ws.host.state.releases[A], undefined);
+    });
+
+    it("does not leave releases behind when an atomic run fails", async () => {
+        ws.fixture.repos[A].workflow_conclusion = "failure";
+
+        commit_files(ws, A, "feature", { "feature.txt": "feature\n" });
+        open_pr(ws, A, { number: 1, head: "feature" });
+
+        await update_dev([A]);
+
+        const state = new_tag_state();
+
+        await assert.rejects(tag_dev([A], state, { releases: true, atomic: true }));
+
+        assert.deepEqual(get_tags(ws, A), ["1.0.0"]);
+        assert.equal(state.tags[`${A}:dev`].release, null);
+        assert.equal(ws.host.state.releases[A], undefined);
+    });
+
+    it("tags master branches in dependency order", async () => {
+        commit_files(ws, A, "feature", { "feature.txt": "feature\n" });
+        commit_files(ws, B, "feature", { "feature.txt": "feature\n" });
+        open_pr(ws, A, { number: 1, head: "feature" });
+        open_pr(ws, B, { number: 1, head: "feature", body: "depends on: https://github.com/GTNewHorizons/A/pull/1" });
+
+        merge_pr(ws, A, 1);
+        merge_pr(ws, B, 1);
+
+        const state = await tag_dev([A, B]);
+
+        assert.ok(state.order.indexOf(`${A}:master`) < state.order.indexOf(`${B}:master`));
+        assert.deepEqual(state.master_tags, { [A]: "1.0.1", [B]: "1.0.1" });
+        assert.match(read_file(ws, B, "1.0.1", "dependencies.gradle"), /GTNewHorizons:A:1\.0\.1:dev/);
+    });
+
+    it("bumps versions according to the repo config and PR labels", async () => {
+        commit_files(ws, A, "master", { ".mmxxl-config.yaml": "versionBump: counted\n" });
+        commit_files(ws, A, "feature", { "feature.txt": "feature\n" });
+        commit_files(ws, B, "feature", { "feature.txt": "feature\n" });
+        open_pr(ws, A, { number: 1, head: "feature" });
+        open_pr(ws, B, { number: 1, head: "feature", labels: ["testing on zeta", "major change"] });
+
+        merge_pr(ws, B, 1);
+
+        await update_dev([A, B]);
+
+        const state = await tag_dev([A, B]);
+
+        // Master is tagged first, so the prereleases count towards the version after it
+        assert.deepEqual(state.pre_tags, { [A]: "1.0.2-pre.1" });
+        assert.deepEqual(state.master_tags, { [A]: "1.0.1", [B]: "1.1.0" });
+    });
+
+    it("resumes an interrupted run without retagging finished targets", async () => {
+        commit_files(ws, A, "feature", { "feature.txt": "feature\n" });
+        commit_files(ws, B, "feature", { "feature.txt": "feature\n" });
+        open_pr(ws, A, { number: 1, head: "feature" });
+        open_pr(ws, B, { number: 1, head: "feature", body: "depends on: https://github.com/GTNewHorizons/A/pull/1" });
+
+        merge_pr(ws, A, 1);
+        merge_pr(ws, B, 1);
+
+        // Reject every push to B, so that the run stops after tagging A
+        const hook = path.join(get_bare_path(ws, B), "hooks", "pre-receive");
+        fs.writeFileSync(hook, "#!/bin/sh\nexit 1\n", { mode: 0o755 });
+
+        const state_file = get_tag_state_path("1234");
+
+        await assert.rejects(tag_dev([A, B], new_tag_state("1234"), { state_file }));
+
+        const saved = load_tag_state(state_file);
+
+        assert.equal(saved.run_id, "1234");
+        assert.equal(saved.tags[`${A}:master`].pushed, true);
+        assert.equal(saved.tags[`${B}:master`]?.pushed, undefined);
+
+        fs.rmSync(hook);
+
+        const state = await tag_dev(saved.repo_ids, saved, { state_file });
+
+        assert.deepEqual(state.master_tags, { [A]: "1.0.1", [B]: "1.0.1" });
+        assert.deepEqual(state.tags[`${B}:master`].tag_overrides, { "A": "1.0.1" });
+        assert.deepEqual(get_tags(ws, A), ["1.0.0", "1.0.1"]);
+        assert.match(read_file(ws, B, "1.0.1", "dependencies.gradle"), /GTNewHorizons:A:1\.0\.1:dev/);
+        assert.equal(load_tag_state(state_file).tags[`${B}:master`].pushed, true);
+    });
+
+    it("resumes the state of the current GitHub Action run instead of the most recent one", () => {
+        const github_run_id = process.env.GITHUB_RUN_ID;
+
+        save_tag_state(get_tag_state_path("1234"), new_tag_state("1234"));
+        save_tag_state(get_tag_state_path("5678"), new_tag_state("5678"));
+
+        try {
+            delete process.env.GITHUB_RUN_ID;
+            assert.equal(find_resume_state(null), get_tag_state_path("5678"));
+
+            process.env.GITHUB_RUN_ID = "1234";
+            assert.equal(find_resume_state(null), get_tag_state_path("1234"));
+            assert.equal(find_resume_state("5678"), get_tag_state_path("5678"));
+        } finally {
+            if (github_run_id === undefined) {
+                delete process.env.GITHUB_RUN_ID;
+            } else {
+                process.env.GITHUB_RUN_ID = github_run_id;
+            }
+        }
+    });
+
+    it("rolls back every pushed tag and branch when an atomic run fails", async () => {
+        commit_files(ws, A, "feature", { "feature.txt": "feature\n" });
+        commit_files(ws, B, "feature", { "feature.txt": "feature\n" });
+        open_pr(ws, A, { number: 1, head: "feature" });
+        open_pr(ws, B, { number: 1, head: "feature", body: "depends on: https://github.com/GTNewHorizons/A/pull/1" });
+
+        merge_pr(ws, A, 1);
+        merge_pr(ws, B, 1);
+
+        const b_master = git(get_bare_path(ws, B), "rev-parse master");
+
+        // Accept B's dependency update, but reject its tag
+        fs.writeFileSync(
+            path.join(get_bare_path(ws, B), "hooks", "pre-receive"),
+            "#!/bin/sh\nwhile read old new ref; do case $ref in refs/tags/*) exit 1;; esac; done\n",
+            { mode: 0o755 },
+        );
+
+        const state = new_tag_state();
+
+        await assert.rejects(tag_dev([A, B], state, { atomic: true }));
+
+        assert.deepEqual(get_tags(ws, A), ["1.0.0"]);
+        assert.deepEqual(get_tags(ws, B), ["1.0.0"]);
+        assert.equal(git(get_bare_path(ws, B), "rev-parse master"), b_master);
+
+        assert.deepEqual(state.changed_refs, []);
+        assert.deepEqual(_.map(state.rolled_back_refs, r => `${r.repo_id} ${r.ref}`), [
+            `${A} refs/tags/1.0.1`,
+            `${B} refs/tags/1.0.1`,
+            `${B} refs/heads/master`,
+        ]);
+        assert.ok(_.every(state.tags, t => !t.pushed));
+    });
+
+    it("does not tag a target when a dependency's workflow fails", async () => {
+        ws.fixture.repos[A].workflow_conclusion = "failure";
+
+        commit_files(ws, A, "feature", { "feature.txt": "feature\n" });
+        commit_files(ws, B, "feature", { "feature.txt": "feature\n" });
+        open_pr(ws, A, { number: 1, head: "feature" });
+        open_pr(ws, B, { number: 1, head: "feature", body: "depends on: https://github.com/GTNewHorizons/A/pull/1" });
+
+        await update_dev([A, B]);
+
+        const state = new_tag_state();
+
+        await assert.rejects(tag_dev([A, B], state), /Could not build dependency: GTNewHorizons\/A:dev .* concluded with 'failure'/);
+
+        assert.equal(state.workflow_results[`${A}:dev`].success, false);
+        assert.equal(state.tags[`${B}:dev`], undefined);
+        assert.ok(!get_tags(ws, B).includes("1.0.1-pre"));
+    });
+
+    it("does not tag branches that are already tagged", async () => {
+        const state = await tag_dev([A, B]);
+
+        assert.deepEqual(state.already_tagged, [`${A}:master`, `${B}:master`]);
+        assert.deepEqual(get_tags(ws, A), ["1.0.0"]);
+    });
+
+    it("fails when a dependency is not in any dev branch", async () => {
+        commit_files(ws, A, "feature", { "feature.txt": "feature\n" });
+        commit_files(ws, B, "feature", { "feature.txt": "feature\n" });
+        open_pr(ws, A, { number: 1, head: "feature" });
+        open_pr(ws, B, { number: 1, head: "feature", body: "depends on: https://github.com/GTNewHorizons/A/pull/1" });
+
+        // A's dev branch is never built, so B's dependency can't be found
+        await update_dev([B]);
+
+        await assert.rejects(tag_dev([A, B]), /PR dependency check failed/);
+        assert.deepEqual(get_tags(ws, B), ["1.0.0"]);
+    });
+});
+
+describe("build_tag_graph", () => {
+    function scan(partial: Partial<TagScan>): TagScan {
+        return { masterPRs: {}, devPRs: {}, masterDependencies: {}, devDependencies: {}, has_dev: {}, labels: {}, prs: {}, ...partial };
+    }
+
+    it("orders dev after master for every repo", () => {
+        const graph = build_tag_graph([A, B], scan({ has_dev: { [A]: true } }));
+
+        assert.deepEqual(graph.dependenciesOf(`${A}:dev`), [`${A}:master`]);
+        assert.ok(!graph.hasNode(`${B}:dev`));
+    });
+
+    it("adds an edge for each cross-repo dependency", () => {
+        const graph = build_tag_graph([A, B], scan({
+            has_dev: { [A]: true, [B]: true },
+            devPRs: { [A]: [pr("https://github.com/GTNewHorizons/A/pull/1")] },
+            devDependencies: { [B]: [pr("https://github.com/GTNewHorizons/A/pull/1")] },
+        }));
+
+        assert.ok(graph.dependenciesOf(`${B}:dev`).includes(`${A}:dev`));
+    });
+
+    it("skips the targets in a dependency cycle and their dependants", () => {
+        const C = "GTNewHorizons/C";
+        const skipped: {[target: string]: string} = {};
+
+        const graph = build_tag_graph([A, B, C], scan({
+            has_dev: { [A]: true, [B]: true, [C]: true },
+            devPRs: {
+                [A]: [pr("https://github.com/GTNewHorizons/A/pull/1")],
+                [B]: [pr("https://github.com/GTNewHorizons/B/pull/1")],
+            },
+            devDependencies: {
+                [A]: [pr("https://github.com/GTNewHorizons/B/pull/1")],
+                [B]: [pr("https://github.com/GTNewHorizons/A/pull/1")],
+                [C]: [pr("https://github.com/GTNewHorizons/A/pull/1")],
+            },
+        }), skipped);
+
+        assert.deepEqual(graph.overallOrder(), [`${A}:master`, `${B}:master`, `${C}:master`]);
+        assert.deepEqual(skipped, {
+            [`${A}:dev`]: `is part of the dependency cycle ${A}:dev -> ${B}:dev -> ${A}:dev`,
+            [`${B}:dev`]: `is part of the dependency cycle ${A}:dev -> ${B}:dev -> ${A}:dev`,
+            [`${C}:dev`]: `depends on ${A}:dev, which was skipped`,
+        });
+    });
+});
@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { compare_versions, get_latest_versions, increment_tag, next_tag, parse_tag, parse_version, stringify_tag, Version } from "../src/requests/tags";
+import { clone_repo } from "../src/requests/repos";
+import { create_repo, create_workspace, destroy_workspace, git, publish, Workspace } from "./harness";
+
+describe("parse_tag", () => {
+    it("round-trips tags", () => {
+        for (const tag of ["1.2.3", "2.7.4-pre", "v1.0", "1.7.10-GTNH-2.3.4"]) {
+            assert.equal(stringify_tag(parse_tag(tag)), tag);
+        }
+    });
+
+    it("extracts the numeric components", () => {
+        assert.deepEqual(parse_tag("2.7.4-pre").values, [2, 7, 4]);
+    });
+});
+
+describe("increment_tag", () => {
+    it("increments the last component", () => {
+        assert.equal(increment_tag(parse_tag("2.7.3"), false), "2.7.4");
+    });
+
+    it("adds -pre for dev tags", () => {
+        assert.equal(increment_tag(parse_tag("2.7.3"), true), "2.7.4-pre");
+    });
+
+    it("replaces -pre when tagging master", () => {
+        assert.equal(increment_tag(parse_tag("2.7.4-pre"), false), "2.7.5");
+    });
+
+    it("does not stack -pre suffixes", () => {
+        assert.equal(increment_tag(parse_tag("2.7.4-pre"), true), "2.7.5-pre");
+    });
+});
+
+describe("compare_versions", () => {
+    function sorted(tags: string[]) {
+        return tags.map(t => parse_version(t) as Version).sort(compare_versions).map(v => v.tag);
+    }
+
+    it("orders by numeric components", () => {
+        assert.deepEqual(sorted(["1.10.0", "1.9.0", "1.2.10", "1.2.9"]), ["1.2.9", "1.2.10", "1.9.0", "1.10.0"]);
+    });
+
+    it("orders prereleases before their release", () => {
+        assert.deepEqual(sorted(["2.7.4", "2.7.4-pre", "2.7.3"]), ["2.7.3", "2.7.4-pre", "2.7.4"]);
+    });
+
+    it("orders prerelease identifiers by semver precedence", () => {
+        assert.deepEqual(
+            sorted(["1.0.0-rc.1", "1.0.0-beta.11", "1.0.0-beta.2", "1.0.0-alpha", "1.0.0-alpha.1"]),
+            ["1.0.0-alpha", "1.0.0-alpha.1", "1.0.0-beta.2", "1.0.0-beta.11", "1.0.0-rc.1"],
+        );
+    });
+
+    it("ignores build metadata and prefixes", () => {
+        assert.equal(compare_versions(parse_version("1.2.3+build.5") as Version, parse_version("v1.2.3") as Version), 0);
+    });
+
+    it("does not parse tags that aren't versions", () => {
+        assert.equal(parse_version("release-candidate"), null);
+    });
+});
+
+describe("next_tag", () => {
+    function latest(release: string | null, prerelease: string | null) {
+        return {
+            release: release ? parse_version(release) : null,
+            prerelease: prerelease ? parse_version(prerelease) : null,
+        };
+    }
+
+    it("increments the highest release", () => {
+        assert.equal(next_tag(latest("2.7.3", null), false), "2.7.4");
+        assert.equal(next_tag(latest("2.7.3", null), true), "2.7.4-pre");
+    });
+
+    it("increments the prerelease when it is higher than the release", () => {
+        assert.equal(next_tag(latest("2.7.3", "2.7.4-pre"), false), "2.7.5");
+    });
+
+    it("increments the release when it is higher than the prerelease", () => {
+        assert.equal(next_tag(latest("2.7.10", "2.7.9-pre"), true), "2.7.11-pre");
+    });
+
+    it("drops build metadata", () => {
+        assert.equal(next_tag(latest("v1.2.3+build.5", null), false), "v1.2.4");
+    });
+
+    it("keeps unknown tag formats", () => {
+        assert.equal(next_tag(latest("1.7.10-GTNH-2.3.4", null), false), "1.7.10-GTNH-2.3.5");
+    });
+});
+
+describe("next_tag bump strategies", () => {
+    function latest(release: string | null, prerelease: string | null) {
+        return {
+            release: release ? parse_version(release) : null,
+            prerelease: prerelease ? parse_version(prerelease) : null,
+        };
+    }
+
+    const now = new Date(Date.UTC(2024, 0, 31));
+
+    it("bumps the minor version", () => {
+        assert.equal(next_tag(latest("2.7.3", null), false, { strategy: "minor" }), "2.8.0");
+        assert.equal(next_tag(latest("2.7.3", "2.8.0-pre"), true, { strategy: "minor" }), "2.9.0-pre");
+    });
+
+    it("bumps the minor version for major changes", () => {
+        assert.equal(next_tag(latest("2.7.3", null), false, { strategy: "patch", minor: true }), "2.8.0");
+    });
+
+    it("counts prereleases of the next version", () => {
+        assert.equal(next_tag(latest("2.7.3", null), true, { strategy: "counted" }), "2.7.4-pre.1");
+        assert.equal(next_tag(latest("2.7.3", "2.7.4-pre.3"), true, { strategy: "counted" }), "2.7.4-pre.4");
+        assert.equal(next_tag(latest("2.7.3", "2.7.4-pre"), true, { strategy: "counted" }), "2.7.4-pre.1");
+    });
+
+    it("releases the version that was being counted", () => {
+        assert.equal(next_tag(latest("2.7.3", "2.7.4-pre.3"), false, { strategy: "counted" }), "2.7.4");
+        assert.equal(next_tag(latest("2.7.4", "2.7.4-pre.3"), false, { strategy: "counted" }), "2.7.5");
+        assert.equal(next_tag(latest("2.7.4", "2.7.4-pre.3"), true, { strategy: "counted" }), "2.7.5-pre.1");
+    });
+
+    it("restarts the count when a major change needs a newer version", () => {
+        assert.equal(next_tag(latest("2.7.3", "2.7.4-pre.3"), true, { strategy: "counted", minor: true }), "2.8.0-pre.1");
+        assert.equal(next_tag(latest("2.7.3", "2.8.0-pre.2"), true, { strategy: "counted", minor: true }), "2.8.0-pre.3");
+    });
+
+    it("stamps prereleases with the build date", () => {
+        assert.equal(next_tag(latest("2.7.3", null), true, { strategy: "date", now }), "2.7.4-pre.20240131.1");
+        assert.equal(next_tag(latest("2.7.3", "2.7.4-pre.20240131.1"), true, { strategy: "date", now }), "2.7.4-pre.20240131.2");
+        assert.equal(next_tag(latest("2.7.3", "2.7.4-pre.20240130.5"), true, { strategy: "date", now }), "2.7.4-pre.20240131.1");
+        assert.equal(next_tag(latest("2.7.3", "2.7.4-pre.20240130.5"), false, { strategy: "date", now }), "2.7.4");
+    });
+
+    it("starts from 0.0.0", () => {
+        assert.equal(next_tag(latest(null, null), true, { strategy: "counted" }), "0.0.1-pre.1");
+        assert.equal(next_tag(latest(null, null), false, { strategy: "minor" }), "0.1.0");
+    });
+});
+
+describe("get_latest_versions", () => {
+    const REPO = "GTNewHorizons/Example";
+
+    var ws: Workspace;
+
+    beforeEach(() => {
+        ws = create_workspace();
+    });
+
+    afterEach(() => {
+        destroy_workspace(ws);
+    });
+
+    it("considers every tag, not just the most recently created ones", async () => {
+        const work = create_repo(ws, REPO);
+
+        for (const tag of ["2.0.0", "2.0.1-pre", "1.0.1", "1.0.2", "1.0.3", "1.0.4", "1.0.5", "not-a-version"]) {
+            git(work, `tag ${tag}`);
+        }
+
+        publish(ws, REPO);
+
+        await clone_repo(REPO);
+
+        const versions = await get_latest_versions(REPO);
+
+        assert.equal(versions.release?.tag, "2.0.0");
+        assert.equal(versions.prerelease?.tag, "2.0.1-pre");
+    });
+});
@@ -0,0 +1,635 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { update_dev, UpdateDevResults } from "../src/update_dev";
+import { get_mirror_path } from "../src/requests/mirrors";
+import { commit_files, create_repo, create_workspace, destroy_workspace, get_bare_path, get_branches, get_status, git, merge_pr, open_pr, read_file, Workspace } from "./harness";
+
+const REPO = "GTNewHorizons/Example";
+
+describe("update-dev", () => {
+    var ws: Workspace;
+
+    beforeEach(() => {
+        ws = create_workspace();
+        create_repo(ws, REPO, { "a.txt": "a\n" });
+    });
+
+    afterEach(() => {
+        destroy_workspace(ws);
+    });
+
+    it("merges a new PR into dev and records it in the status", async () => {
+        commit_files(ws, REPO, "feature", { "feature.txt": "feature\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature" });
+
+        const results = await update_dev([REPO]);
+
+        assert.equal(results[REPO].outcome, "updated");
+        assert.deepEqual(results[REPO].included_prs, ["https://github.com/GTNewHorizons/Example/pull/1"]);
+        assert.equal(read_file(ws, REPO, "dev-mmxxl", "feature.txt"), "feature");
+
+        const status = await get_status(REPO, "dev-mmxxl");
+
+        assert.deepEqual(status?.["Included PRs"], ["https://github.com/GTNewHorizons/Example/pull/1"]);
+    });
+
+    it("ignores PRs without the testing label", async () => {
+        commit_files(ws, REPO, "feature", { "feature.txt": "feature\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature", labels: [] });
+
+        const results = await update_dev([REPO]);
+
+        assert.equal(results[REPO].outcome, "skipped");
+        assert.ok(!get_branches(ws, REPO).includes("dev-mmxxl"));
+    });
+
+    it("does not rebuild dev when nothing changed", async () => {
+        commit_files(ws, REPO, "feature", { "feature.txt": "feature\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature" });
+
+        await update_dev([REPO]);
+        const results = await update_dev([REPO]);
+
+        assert.equal(results[REPO].outcome, "unchanged");
+    });
+
+    it("rebuilds dev when master changes", async () => {
+        commit_files(ws, REPO, "feature", { "feature.txt": "feature\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature" });
+
+        await update_dev([REPO]);
+
+        commit_files(ws, REPO, "master", { "b.txt": "b\n" });
+
+        const results = await update_dev([REPO]);
+
+        assert.equal(results[REPO].outcome, "updated");
+        assert.equal(read_file(ws, REPO, "dev-mmxxl", "b.txt"), "b");
+    });
+
+    it("removes merged PRs from dev and reports them", async () => {
+        commit_files(ws, REPO, "feature-1", { "one.txt": "one\n" });
+        commit_files(ws, REPO, "feature-2", { "two.txt": "two\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature-1" });
+        open_pr(ws, REPO, { number: 2, head: "feature-2" });
+
+        await update_dev([REPO]);
+
+        merge_pr(ws, REPO, 1);
+
+        const results = await update_dev([REPO]);
+
+        assert.equal(results[REPO].outcome, "updated");
+        assert.deepEqual(results[REPO].included_prs, ["https://github.com/GTNewHorizons/Example/pull/2"]);
+        assert.deepEqual(results[REPO].removed_prs, ["https://github.com/GTNewHorizons/Example/pull/1"]);
+    });
+
+    it("deletes dev once no PRs are left", async () => {
+        commit_files(ws, REPO, "feature", { "feature.txt": "feature\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature" });
+
+        await update_dev([REPO]);
+
+        merge_pr(ws, REPO, 1);
+
+        const results = await update_dev([REPO]);
+
+        assert.equal(results[REPO].outcome, "deleted");
+        assert.ok(!get_branches(ws, REPO).includes("dev-mmxxl"));
+    });
+
+    it("drops a conflicting PR and comments on it", async () => {
+        commit_files(ws, REPO, "feature-1", { "a.txt": "one\n" });
+        commit_files(ws, REPO, "feature-2", { "a.txt": "two\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature-1" });
+        open_pr(ws, REPO, { number: 2, head: "feature-2" });
+
+        const results = await update_dev([REPO]);
+
+        assert.deepEqual(results[REPO].included_prs, ["https://github.com/GTNewHorizons/Example/pull/1"]);
+        assert.equal(results[REPO].merge_failures.length, 1);
+        assert.equal(results[REPO].merge_failures[0].source, "https://github.com/GTNewHorizons/Example/pull/2");
+        assert.deepEqual(results[REPO].merge_failures[0].files, ["a.txt"]);
+
+        const [comment] = ws.host.state.comments["https://github.com/GTNewHorizons/Example/pull/2"];
+
+        assert.match(comment.body, /`a\.txt`/);
+        assert.match(comment.body, /pull\/1/);
+    });
+
+    it("leaves out PRs that depend on a PR that could not be merged", async () => {
+        commit_files(ws, REPO, "feature-1", { "a.txt": "one\n" });
+        commit_files(ws, REPO, "feature-2", { "a.txt": "two\n" });
+        commit_files(ws, REPO, "feature-3", { "three.txt": "three\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature-1" });
+        open_pr(ws, REPO, { number: 2, head: "feature-2" });
+        open_pr(ws, REPO, { number: 3, head: "feature-3", body: "depends on: #2" });
+
+        const results = await update_dev([REPO]);
+
+        assert.deepEqual(results[REPO].included_prs, ["https://github.com/GTNewHorizons/Example/pull/1"]);
+        assert.deepEqual(results[REPO].excluded_prs, [{
+            pr: "https://github.com/GTNewHorizons/Example/pull/3",
+            reason: "depends on https://github.com/GTNewHorizons/Example/pull/2, which could not be merged",
+        }]);
+    });
+
+    it("removes the conflict comment once the PR merges cleanly", async () => {
+        commit_files(ws, REPO, "feature-1", { "a.txt": "one\n" });
+        commit_files(ws, REPO, "feature-2", { "a.txt": "two\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature-1" });
+        open_pr(ws, REPO, { number: 2, head: "feature-2" });
+
+        await update_dev([REPO]);
+
+        ws.fixture.repos[REPO].prs?.shift();
+
+        await update_dev([REPO]);
+
+        assert.deepEqual(ws.host.state.comments["https://github.com/GTNewHorizons/Example/pull/2"], []);
+    });
+
+    it("only looks for conflict comments on PRs that failed to merge last time", async () => {
+        commit_files(ws, REPO, "feature-1", { "a.txt": "one\n" });
+        commit_files(ws, REPO, "feature-2", { "a.txt": "two\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature-1" });
+        open_pr(ws, REPO, { number: 2, head: "feature-2" });
+
+        await update_dev([REPO]);
+
+        const listed: number[] = [];
+        const list_comments = ws.host.list_comments;
+
+        ws.host.list_comments = pr_id => {
+            listed.push(pr_id.pr);
+            return list_comments(pr_id);
+        };
+
+        commit_files(ws, REPO, "master", { "master.txt": "master\n" });
+
+        await update_dev([REPO]);
+
+        // PR 2 still conflicts, so its comment is updated
+        assert.deepEqual(listed, [2]);
+    });
+
+    it("removes the conflict comment once the PR is no longer ready for testing", async () => {
+        commit_files(ws, REPO, "feature-1", { "a.txt": "one\n" });
+        commit_files(ws, REPO, "feature-2", { "a.txt": "two\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature-1" });
+        open_pr(ws, REPO, { number: 2, head: "feature-2" });
+
+        await update_dev([REPO]);
+
+        ws.fixture.repos[REPO].prs![1].labels = [];
+
+        await update_dev([REPO]);
+
+        assert.deepEqual(ws.host.state.comments["https://github.com/GTNewHorizons/Example/pull/2"], []);
+    });
+
+    it("cancels the experimental when a non-revertable PR stops merging", async () => {
+        commit_files(ws, REPO, "feature", { "a.txt": "feature\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature", labels: ["testing on zeta", "not revertable"] });
+
+        await update_dev([REPO]);
+
+        commit_files(ws, REPO, "master", { "a.txt": "master\n" });
+
+        await assert.rejects(update_dev([REPO]), /non-revertable/);
+
+        assert.ok(get_branches(ws, REPO).includes("dev-mmxxl-error"));
+    });
+
+    it("cancels the experimental when dev-custom can't be merged", async () => {
+        commit_files(ws, REPO, "feature", { "a.txt": "feature\n" });
+        commit_files(ws, REPO, "dev-mmxxl-custom", { "a.txt": "custom\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature" });
+
+        await assert.rejects(update_dev([REPO]), /dev-mmxxl-custom/);
+
+        assert.ok(get_branches(ws, REPO).includes("dev-mmxxl-error"));
+    });
+
+    it("leaves out PRs whose dependency chain is not ready for testing", async () => {
+        commit_files(ws, REPO, "feature-1", { "one.txt": "one\n" });
+        commit_files(ws, REPO, "feature-2", { "two.txt": "two\n" });
+        commit_files(ws, REPO, "feature-3", { "three.txt": "three\n" });
+        commit_files(ws, REPO, "feature-4", { "four.txt": "four\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature-1", draft: true });
+        open_pr(ws, REPO, { number: 2, head: "feature-2", body: "depends on: #1" });
+        open_pr(ws, REPO, { number: 3, head: "feature-3", body: "depends on: #2" });
+        open_pr(ws, REPO, { number: 4, head: "feature-4", body: "depends on: GTNewHorizons/Missing#7" });
+
+        const results = await update_dev([REPO]);
+
+        assert.equal(results[REPO].outcome, "skipped");
+        assert.deepEqual(results[REPO].excluded_prs, [
+            { pr: "https://github.com/GTNewHorizons/Example/pull/2", reason: "depends on https://github.com/GTNewHorizons/Example/pull/1, which is a draft" },
+            { pr: "https://github.com/GTNewHorizons/Example/pull/3", reason: "depends on https://github.com/GTNewHorizons/Example/pull/2, which was excluded too" },
+            { pr: "https://github.com/GTNewHorizons/Example/pull/4", reason: "depends on https://github.com/GTNewHorizons/Missing/pull/7, which does not exist or could not be loaded" },
+        ]);
+    });
+
+    it("keeps PRs whose dependencies were merged", async () => {
+        commit_files(ws, REPO, "feature-1", { "one.txt": "one\n" });
+        commit_files(ws, REPO, "feature-2", { "two.txt": "two\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature-1" });
+        open_pr(ws, REPO, { number: 2, head: "feature-2", body: "depends on: #1" });
+
+        merge_pr(ws, REPO, 1);
+
+        const results = await update_dev([REPO]);
+
+        assert.deepEqual(results[REPO].included_prs, ["https://github.com/GTNewHorizons/Example/pull/2"]);
+        assert.deepEqual(results[REPO].excluded_prs, []);
+    });
+
+    it("reads dependencies from the Markdown body, including links in task lists", async () => {
+        commit_files(ws, REPO, "feature-1", { "one.txt": "one\n" });
+        commit_files(ws, REPO, "feature-2", { "two.txt": "two\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature-1", draft: true });
+        open_pr(ws, REPO, { number: 2, head: "feature-2", body: "- [ ] Depends on: [the draft](https://github.com/GTNewHorizons/Example/pull/1)" });
+
+        const results = await update_dev([REPO]);
+
+        assert.deepEqual(results[REPO].excluded_prs, [
+            { pr: "https://github.com/GTNewHorizons/Example/pull/2", reason: "depends on https://github.com/GTNewHorizons/Example/pull/1, which is a draft" },
+        ]);
+    });
+
+    it("leaves out PRs with invalid dependencies and records why", async () => {
+        commit_files(ws, REPO, "feature-1", { "one.txt": "one\n" });
+        commit_files(ws, REPO, "feature-2", { "two.txt": "two\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature-1", body: "Requires: Java 17" });
+        open_pr(ws, REPO, { number: 2, head: "feature-2", body: "depends on: the other PR" });
+
+        const results = await update_dev([REPO]);
+
+        assert.deepEqual(results[REPO].included_prs, ["https://github.com/GTNewHorizons/Example/pull/1"]);
+        assert.deepEqual(results[REPO].excluded_prs, [{
+            pr: "https://github.com/GTNewHorizons/Example/pull/2",
+            reason: "has invalid dependency reference(s) 'the other PR'",
+        }]);
+
+        const status = await get_status(REPO, "dev-mmxxl");
+
+        assert.deepEqual(status?.["Excluded PRs"], { "https://github.com/GTNewHorizons/Example/pull/2": "has invalid dependency reference(s) 'the other PR'" });
+    });
+
+    it("leaves out PRs in a dependency cycle and keeps the rest", async () => {
+        commit_files(ws, REPO, "feature-1", { "one.txt": "one\n" });
+        commit_files(ws, REPO, "feature-2", { "two.txt": "two\n" });
+        commit_files(ws, REPO, "feature-3", { "three.txt": "three\n" });
+        commit_files(ws, REPO, "feature-4", { "four.txt": "four\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature-1", body: "depends on: GTNewHorizons/Example#2" });
+        open_pr(ws, REPO, { number: 2, head: "feature-2", body: "depends on: GTNewHorizons/Example#1" });
+        open_pr(ws, REPO, { number: 3, head: "feature-3", body: "depends on: #1" });
+        open_pr(ws, REPO, { number: 4, head: "feature-4" });
+
+        const results = await update_dev([REPO]);
+
+        const cycle = "https://github.com/GTNewHorizons/Example/pull/1 -> https://github.com/GTNewHorizons/Example/pull/2 -> https://github.com/GTNewHorizons/Example/pull/1";
+
+        assert.equal(results[REPO].outcome, "updated");
+        assert.deepEqual(results[REPO].included_prs, ["https://github.com/GTNewHorizons/Example/pull/4"]);
+        assert.deepEqual(results[REPO].excluded_prs, [
+            { pr: "https://github.com/GTNewHorizons/Example/pull/1", reason: `is part of the dependency cycle ${cycle}` },
+            { pr: "https://github.com/GTNewHorizons/Example/pull/2", reason: `is part of the dependency cycle ${cycle}` },
+            { pr: "https://github.com/GTNewHorizons/Example/pull/3", reason: "depends on https://github.com/GTNewHorizons/Example/pull/1, which was excluded too" },
+        ]);
+    });
+
+    it("uses the label policy from the repo config", async () => {
+        commit_files(ws, REPO, "master", { ".mmxxl-config.yaml": "requiredLabels: ['testing on *', '!testing on alpha']\nblockerLabels: ['wip*']\n" });
+        commit_files(ws, REPO, "feature-1", { "one.txt": "one\n" });
+        commit_files(ws, REPO, "feature-2", { "two.txt": "two\n" });
+        commit_files(ws, REPO, "feature-3", { "three.txt": "three\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature-1", labels: ["Testing on Beta"] });
+        open_pr(ws, REPO, { number: 2, head: "feature-2", labels: ["testing on alpha"] });
+        open_pr(ws, REPO, { number: 3, head: "feature-3", labels: ["testing on beta", "WIP: do not merge"] });
+
+        const results = await update_dev([REPO]);
+
+        assert.deepEqual(results[REPO].included_prs, ["https://github.com/GTNewHorizons/Example/pull/1"]);
+    });
+
+    it("checks cross-repo dependencies against the policy of their own repo", async () => {
+        const OTHER = "GTNewHorizons/Other";
+
+        create_repo(ws, OTHER, { ".mmxxl-config.yaml": "requiredLabels: ['ready']\nexcludeChangesRequested: false\n" });
+        commit_files(ws, OTHER, "other-1", { "one.txt": "one\n" });
+        commit_files(ws, OTHER, "other-2", { "two.txt": "two\n" });
+        open_pr(ws, OTHER, { number: 1, head: "other-1", labels: ["ready"], review_decision: "CHANGES_REQUESTED" });
+        open_pr(ws, OTHER, { number: 2, head: "other-2" });
+
+        commit_files(ws, REPO, "feature-1", { "one.txt": "one\n" });
+        commit_files(ws, REPO, "feature-2", { "two.txt": "two\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature-1", body: "depends on: Other#1" });
+        open_pr(ws, REPO, { number: 2, head: "feature-2", body: "depends on: Other#2" });
+
+        const results = await update_dev([REPO]);
+
+        assert.deepEqual(results[REPO].included_prs, ["https://github.com/GTNewHorizons/Example/pull/1"]);
+        assert.deepEqual(results[REPO].excluded_prs, [{
+            pr: "https://github.com/GTNewHorizons/Example/pull/2",
+            reason: "depends on https://github.com/GTNewHorizons/Other/pull/2, which does not have a label matching 'ready'",
+        }]);
+    });
+
+    it("leaves out PRs with changes requested or failing checks and records why", async () => {
+        commit_files(ws, REPO, "master", { ".mmxxl-config.yaml": "excludeChangesRequested: true\nrequireGreenChecks: true\n" });
+        commit_files(ws, REPO, "feature-1", { "one.txt": "one\n" });
+        commit_files(ws, REPO, "feature-2", { "two.txt": "two\n" });
+        commit_files(ws, REPO, "feature-3", { "three.txt": "three\n" });
+        commit_files(ws, REPO, "feature-4", { "four.txt": "four\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature-1", review_decision: "APPROVED", checks: "SUCCESS" });
+        open_pr(ws, REPO, { number: 2, head: "feature-2", review_decision: "CHANGES_REQUESTED" });
+        open_pr(ws, REPO, { number: 3, head: "feature-3", checks: "FAILURE" });
+        open_pr(ws, REPO, { number: 4, head: "feature-4", body: "depends on: #3" });
+
+        const results = await update_dev([REPO]);
+
+        const excluded = {
+            "https://github.com/GTNewHorizons/Example/pull/2": "has changes requested",
+            "https://github.com/GTNewHorizons/Example/pull/3": "has failing checks",
+            "https://github.com/GTNewHorizons/Example/pull/4": "depends on https://github.com/GTNewHorizons/Example/pull/3, which was excluded too",
+        };
+
+        assert.deepEqual(results[REPO].included_prs, ["https://github.com/GTNewHorizons/Example/pull/1"]);
+        assert.deepEqual((await get_status(REPO, "dev-mmxxl"))?.["Excluded PRs"], excluded);
+    });
+
+    it("tests PRs with changes requested unless asked not to", async () => {
+        commit_files(ws, REPO, "feature", { "feature.txt": "feature\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature", review_decision: "CHANGES_REQUESTED" });
+
+        const results = await update_dev([REPO]);
+
+        assert.deepEqual(results[REPO].included_prs, ["https://github.com/GTNewHorizons/Example/pull/1"]);
+        assert.deepEqual(results[REPO].excluded_prs, []);
+    });
+
+    it("merges higher priority PRs first so that they win conflicts", async () => {
+        commit_files(ws, REPO, "master", { ".mmxxl-config.yaml": "mergeOrder: [priority, size]\nmmxxlPriority: ['#3']\n" });
+        commit_files(ws, REPO, "feature-1", { "a.txt": "one\n" });
+        commit_files(ws, REPO, "feature-2", { "a.txt": "two\n" });
+        commit_files(ws, REPO, "feature-3", { "a.txt": "three\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature-1", size: 20 });
+        open_pr(ws, REPO, { number: 2, head: "feature-2", size: 10 });
+        open_pr(ws, REPO, { number: 3, head: "feature-3", size: 30 });
+
+        const results = await update_dev([REPO]);
+
+        assert.deepEqual(results[REPO].included_prs, ["https://github.com/GTNewHorizons/Example/pull/3"]);
+        assert.deepEqual(results[REPO].merge_failures.map(f => f.source), [
+            "https://github.com/GTNewHorizons/Example/pull/2",
+            "https://github.com/GTNewHorizons/Example/pull/1",
+        ]);
+    });
+
+    it("records the SHAs that dev was built from", async () => {
+        commit_files(ws, REPO, "feature", { "feature.txt": "feature\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature" });
+
+        await update_dev([REPO]);
+
+        const status = await get_status(REPO, "dev-mmxxl");
+
+        assert.deepEqual(status?.["PR Heads"], { "https://github.com/GTNewHorizons/Example/pull/1": git(get_bare_path(ws, REPO), "rev-parse feature") });
+        assert.equal(status?.["Default Branch SHA"], git(get_bare_path(ws, REPO), "rev-parse master"));
+        assert.equal(status?.["Custom Branch SHA"], null);
+    });
+
+    it("does not rebuild dev when only a PR's update time changes", async () => {
+        commit_files(ws, REPO, "feature", { "feature.txt": "feature\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature" });
+
+        await update_dev([REPO]);
+
+        ws.fixture.repos[REPO].prs![0].updated_at = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+        const results = await update_dev([REPO]);
+
+        assert.equal(results[REPO].outcome, "unchanged");
+    });
+
+    it("rebuilds dev when a PR's head changes, whatever its update time", async () => {
+        commit_files(ws, REPO, "feature", { "feature.txt": "feature\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature", updated_at: "2000-01-01T00:00:00Z" });
+
+        await update_dev([REPO]);
+
+        commit_files(ws, REPO, "feature", { "feature.txt": "changed\n" });
+
+        const results = await update_dev([REPO]);
+
+        assert.equal(results[REPO].outcome, "updated");
+        assert.equal(read_file(ws, REPO, "dev-mmxxl", "feature.txt"), "changed");
+    });
+
+    it("does not rebuild dev for PRs that could not be merged until their heads change", async () => {
+        commit_files(ws, REPO, "feature-1", { "a.txt": "one\n" });
+        commit_files(ws, REPO, "feature-2", { "a.txt": "two\n" });
+        commit_files(ws, REPO, "feature-3", { "three.txt": "three\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature-1" });
+        open_pr(ws, REPO, { number: 2, head: "feature-2" });
+        open_pr(ws, REPO, { number: 3, head: "feature-3", body: "depends on: #2" });
+
+        await update_dev([REPO]);
+
+        const status = await get_status(REPO, "dev-mmxxl");
+
+        assert.deepEqual(status?.["Unmerged PR Heads"], {
+            "https://github.com/GTNewHorizons/Example/pull/2": git(get_bare_path(ws, REPO), "rev-parse feature-2"),
+            "https://github.com/GTNewHorizons/Example/pull/3": git(get_bare_path(ws, REPO), "rev-parse feature-3"),
+        });
+
+        const unchanged = await update_dev([REPO]);
+
+        assert.equal(unchanged[REPO].outcome, "unchanged");
+
+        commit_files(ws, REPO, "feature-2", { "a.txt": "a\n" });
+
+        const updated = await update_dev([REPO]);
+
+        assert.equal(updated[REPO].outcome, "updated");
+        assert.deepEqual(updated[REPO].included_prs, [
+            "https://github.com/GTNewHorizons/Example/pull/1",
+            "https://github.com/GTNewHorizons/Example/pull/2",
+            "https://github.com/GTNewHorizons/Example/pull/3",
+        ]);
+    });
+
+    it("stores the status in its own ref instead of a commit in dev", async () => {
+        commit_files(ws, REPO, "feature", { "feature.txt": "feature\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature" });
+
+        await update_dev([REPO]);
+
+        const subjects = git(get_bare_path(ws, REPO), "log dev-mmxxl --format=%s").split("\n");
+
+        assert.ok(!subjects.includes("Dev Branch Status"));
+        assert.match(git(get_bare_path(ws, REPO), "show refs/mmxxl/status/dev-mmxxl:status.yaml"), /^version: 1$/m);
+    });
+
+    it("ignores a status that no longer describes dev", async () => {
+        commit_files(ws, REPO, "feature", { "feature.txt": "feature\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature" });
+
+        await update_dev([REPO]);
+
+        // Rebuilt by something else, without updating the status
+        git(get_bare_path(ws, REPO), "branch -f dev-mmxxl master");
+
+        const results = await update_dev([REPO]);
+
+        assert.equal(results[REPO].outcome, "updated");
+        assert.equal(read_file(ws, REPO, "dev-mmxxl", "feature.txt"), "feature");
+    });
+
+    it("does not clone repos where nothing changed", async () => {
+        commit_files(ws, REPO, "feature", { "feature.txt": "feature\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature" });
+
+        await update_dev([REPO]);
+
+        const cloned: string[] = [];
+        const get_clone_url = ws.host.get_clone_url;
+
+        ws.host.get_clone_url = repo_info => {
+            cloned.push(`${repo_info.owner}/${repo_info.repo}`);
+            return get_clone_url(repo_info);
+        };
+
+        const unchanged = await update_dev([REPO]);
+
+        assert.equal(unchanged[REPO].outcome, "unchanged");
+        assert.deepEqual(cloned, []);
+
+        commit_files(ws, REPO, "feature", { "feature.txt": "changed\n" });
+
+        const updated = await update_dev([REPO]);
+
+        assert.equal(updated[REPO].outcome, "updated");
+        assert.deepEqual(cloned, [REPO]);
+    });
+
+    it("does not clone repos whose cross-repo dependencies only match their own repo's policy", async () => {
+        const OTHER = "GTNewHorizons/Other";
+
+        create_repo(ws, OTHER, { ".mmxxl-config.yaml": "requiredLabels: ['ready']\n" });
+        commit_files(ws, OTHER, "other", { "other.txt": "other\n" });
+        open_pr(ws, OTHER, { number: 1, head: "other", labels: ["ready"] });
+
+        commit_files(ws, REPO, "feature", { "feature.txt": "feature\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature", body: "depends on: Other#1" });
+
+        const first = await update_dev([REPO]);
+
+        assert.deepEqual(first[REPO].included_prs, ["https://github.com/GTNewHorizons/Example/pull/1"]);
+
+        const cloned: string[] = [];
+        const get_clone_url = ws.host.get_clone_url;
+
+        ws.host.get_clone_url = repo_info => {
+            cloned.push(`${repo_info.owner}/${repo_info.repo}`);
+            return get_clone_url(repo_info);
+        };
+
+        const second = await update_dev([REPO]);
+
+        assert.equal(second[REPO].outcome, "unchanged");
+        assert.deepEqual(second[REPO].excluded_prs, []);
+        assert.deepEqual(cloned, []);
+    });
+
+    it("updates repos concurrently in separate scratchpads", async () => {
+        const OTHER = "GTNewHorizons/Other";
+
+        create_repo(ws, OTHER);
+        commit_files(ws, REPO, "feature", { "feature.txt": "feature\n" });
+        commit_files(ws, OTHER, "feature", { "other.txt": "other\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature" });
+        open_pr(ws, OTHER, { number: 1, head: "feature" });
+
+        const clones: {[repo: string]: string} = {};
+        const checkout_pr = ws.host.checkout_pr;
+
+        ws.host.checkout_pr = (repo_path, pr_id, local_branch) => {
+            clones[`${pr_id.repo_id.owner}/${pr_id.repo_id.repo}`] = repo_path;
+            return checkout_pr(repo_path, pr_id, local_branch);
+        };
+
+        const results = await update_dev([REPO, OTHER], {}, 2);
+
+        assert.equal(results[REPO].outcome, "updated");
+        assert.equal(results[OTHER].outcome, "updated");
+        assert.equal(read_file(ws, OTHER, "dev-mmxxl", "other.txt"), "other");
+
+        assert.ok(clones[REPO].startsWith(path.join(ws.dir, "clones", "worker-0")));
+        assert.ok(clones[OTHER].startsWith(path.join(ws.dir, "clones", "worker-1")));
+    });
+
+    it("keeps the results of every repo when a concurrent update fails", async () => {
+        const OTHER = "GTNewHorizons/Other";
+
+        create_repo(ws, OTHER);
+        commit_files(ws, REPO, "feature", { "a.txt": "feature\n" });
+        commit_files(ws, REPO, "dev-mmxxl-custom", { "a.txt": "custom\n" });
+        commit_files(ws, OTHER, "feature", { "other.txt": "other\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature" });
+        open_pr(ws, OTHER, { number: 1, head: "feature" });
+
+        const results: UpdateDevResults = {};
+
+        await assert.rejects(update_dev([REPO, OTHER], results, 2), /dev-mmxxl-custom/);
+
+        assert.equal(results[REPO].outcome, "failed");
+        assert.equal(results[OTHER].outcome, "updated");
+    });
+});
+
+describe("update-dev with a mirror cache", () => {
+    var ws: Workspace;
+
+    beforeEach(() => {
+        ws = create_workspace({ mirror_cache: true });
+        create_repo(ws, REPO, { "a.txt": "a\n" });
+    });
+
+    afterEach(() => {
+        destroy_workspace(ws);
+    });
+
+    it("builds dev from a worktree of the mirror and reads its status back", async () => {
+        commit_files(ws, REPO, "feature", { "feature.txt": "feature\n" });
+        open_pr(ws, REPO, { number: 1, head: "feature" });
+
+        const first = await update_dev([REPO]);
+
+        assert.equal(first[REPO].outcome, "updated");
+        assert.equal(read_file(ws, REPO, "dev-mmxxl", "feature.txt"), "feature");
+
+        const mirror = get_mirror_path(REPO);
+
+        assert.ok(fs.existsSync(mirror));
+        // Removing the worktree leaves no local branches or fetched statuses behind in the mirror
+        assert.equal(git(mirror, "for-each-ref refs/heads refs/mmxxl"), "");
+
+        commit_files(ws, REPO, "master", { "b.txt": "b\n" });
+
+        const second = await update_dev([REPO]);
+
+        assert.equal(second[REPO].outcome, "updated");
+        assert.deepEqual(second[REPO].removed_prs, []);
+        assert.equal(read_file(ws, REPO, "dev-mmxxl", "b.txt"), "b");
+        assert.deepEqual((await get_status(REPO, "dev-mmxxl"))?.["Included PRs"], ["https://github.com/GTNewHorizons/Example/pull/1"]);
+
+        const third = await update_dev([REPO]);
+
+        assert.equal(third[REPO].outcome, "unchanged");
+    });
+});
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { get_watch_options, get_workflow_status, watch_workflow, watch_workflows, WatchOptions } from "../src/requests/workflows";
+import { HostWorkflowRun } from "../src/requests/host";
+import { parse_repo_config } from "../src/requests/repos";
+import { create_workspace, destroy_workspace, Workspace } from "./harness";
+
+const REPO = "GTNewHorizons/Example";
+
+const FAST: WatchOptions = {
+    start_timeout: 0.05,
+    timeout: 0.2,
+    poll_interval: 0.01,
+    backoff: 2,
+    max_poll_interval: 0.05,
+};
+
+function run(status: string | null, conclusion: string | null = null): HostWorkflowRun {
+    return { id: 1, head_branch: "1.0.1", status, conclusion };
+}
+
+describe("get_workflow_status", () => {
+    it("only counts successful runs as completed", () => {
+        assert.equal(get_workflow_status(run("completed", "success")), "completed");
+        assert.equal(get_workflow_status(run("completed", "failure")), "failed");
+        assert.equal(get_workflow_status(run("completed", "cancelled")), "failed");
+        assert.equal(get_workflow_status(run("completed", "timed_out")), "failed");
+    });
+
+    it("treats queued and running runs as in progress", () => {
+        for (const status of ["queued", "in_progress", "requested", "waiting", "pending"]) {
+            assert.equal(get_workflow_status(run(status)), "in-progress");
+        }
+    });
+
+    it("does not know runs with unexpected states", () => {
+        assert.equal(get_workflow_status(run("completed")), "unknown");
+        assert.equal(get_workflow_status(run(null)), "unknown");
+    });
+});
+
+describe("watch_workflow", () => {
+    var ws: Workspace;
+
+    function add_run(id: number, status: string, conclusion: string | null = null): HostWorkflowRun {
+        const run = { id, head_branch: `1.0.${id}`, status, conclusion };
+
+        ws.host.state.workflow_runs[REPO] = [...(ws.host.state.workflow_runs[REPO] || []), run];
+
+        return run;
+    }
+
+    beforeEach(() => {
+        ws = create_workspace();
+    });
+
+    afterEach(() => {
+        destroy_workspace(ws);
+    });
+
+    it("succeeds when the run succeeds", async () => {
+        add_run(1, "completed", "success");
+
+        const result = await watch_workflow(REPO, 1, FAST);
+
+        assert.equal(result.success, true);
+        assert.equal(result.reason, null);
+    });
+
+    it("reports the conclusion of failed runs", async () => {
+        add_run(1, "completed", "failure");
+
+        const result = await watch_workflow(REPO, 1, FAST);
+
+        assert.equal(result.success, false);
+        assert.equal(result.status, "failed");
+        assert.match(result.reason as string, /concluded with 'failure'/);
+    });
+
+    it("polls until the run finishes", async () => {
+        const pending = add_run(1, "in_progress");
+
+        setTimeout(() => {
+            pending.status = "completed";
+            pending.conclusion = "success";
+        }, 30);
+
+        const result = await watch_workflow(REPO, 1, FAST);
+
+        assert.equal(result.success, true);
+    });
+
+    it("times out runs that never finish", async () => {
+        add_run(1, "queued");
+
+        const result = await watch_workflow(REPO, 1, FAST);
+
+        assert.equal(result.success, false);
+        assert.equal(result.status, "in-progress");
+        assert.match(result.reason as string, /timed out after 0.2 seconds \(last status: 'queued'\)/);
+    });
+
+    it("fails runs that can't be found", async () => {
+        const result = await watch_workflow(REPO, 5, FAST);
+
+        assert.equal(result.success, false);
+        assert.match(result.reason as string, /could not be found/);
+    });
+
+    it("watches several runs at once", async () => {
+        add_run(1, "completed", "success");
+        add_run(2, "completed", "cancelled");
+        add_run(3, "in_progress");
+
+        const results = await watch_workflows([
+            { repo_id: REPO, workflow_id: 1, options: FAST },
+            { repo_id: REPO, workflow_id: 2, options: FAST },
+            { repo_id: REPO, workflow_id: 3, options: { ...FAST, timeout: 0.05 } },
+        ]);
+
+        assert.deepEqual(results.map(r => r.success), [true, false, false]);
+        assert.match(results[2].reason as string, /timed out after 0.05 seconds/);
+    });
+});
+
+describe("get_watch_options", () => {
+    it("reads the timeouts and backoff from the repo config", () => {
+        const options = get_watch_options(parse_repo_config(REPO, "workflowTimeout: 600\nworkflowPollInterval: 10\nworkflowBackoff: 2\n"));
+
+        assert.equal(options.timeout, 600);
+        assert.equal(options.poll_interval, 10);
+        assert.equal(options.backoff, 2);
+    });
+
+    it("falls back to the defaults", () => {
+        assert.deepEqual(get_watch_options(parse_repo_config(REPO, "")), get_watch_options(null));
+    });
+});